@@ -1,4 +1,4 @@
-export type RouteType = 'static' | 'dynamic' | 'rest' | 'optional' | 'error' | 'layout' | 'divider' | 'group' | 'matcher' | 'spacer';
+export type RouteType = 'static' | 'dynamic' | 'rest' | 'optional' | 'error' | 'layout' | 'divider' | 'group' | 'matcher' | 'spacer' | 'project';
 
 export type FileType = 'page' | 'server' | 'layout' | 'error' | 'pageServer' | 'layoutServer' | 'pageClient' | 'layoutClient';
 
@@ -13,22 +13,266 @@ export interface RouteColors {
 export interface ResetInfo {
     resetTarget: string;  // The target layout to reset to
     displayName: string;  // How to display this in the UI
-    layoutLevel: number;  // How many levels up to go
+    layoutLevel: number;  // How many directory levels up the target layout is
 }
 
-export interface RouteMatch {
-    nextPath: string;
-    remainingSegments: string[];
-    score: number;
+export interface LayoutInfo {
+    routeId: string;           // Route id of the directory holding the layout, e.g. /(app)/blog
+    dir: string;
+    component: string | null;  // +layout.svelte or +layout@x.svelte, null for load-only layouts
+    loadFiles: string[];       // +layout.ts/js and +layout.server.ts/js
+    resetInfo: ResetInfo | null;
+}
+
+export interface RouteSegmentLiteral {
+    type: 'literal';
+    value: string;
+}
+
+export interface RouteSegmentParam {
+    type: 'param';
+    name: string;
+    matcher?: string;
+    optional: boolean;
+    rest: boolean;
 }
 
-export interface SegmentMatch {
-    remainingSegments: string[];
-    score: number;
+export type RouteSegmentPart = RouteSegmentLiteral | RouteSegmentParam;
+
+export interface ParsedSegment {
+    raw: string;
+    group: string | null;  // Name of the group for `(group)` segments
+    parts: RouteSegmentPart[];
+}
+
+export interface RouteParam {
+    name: string;
+    matcher?: string;
+    optional: boolean;
+    rest: boolean;
+    chained: boolean;  // Whether the param can absorb the values of skipped optional params
+}
+
+export interface ParsedRoute {
+    pattern: RegExp;
+    params: RouteParam[];
+}
+
+// A page or endpoint route of a project, with its most specific file
+export interface ListedRoute extends ParsedRoute {
+    id: string;
+    filePath: string;
+}
+
+export interface RouteFileKind {
+    fileType: FileType;
+    resetTarget: string | null;  // `x` in +page@x.svelte / +layout@x.svelte, '' for a reset to the root layout
+    extension: 'svelte' | 'ts' | 'js';
 }
 
 export interface RouteFileInfo {
     filePath: string;
     fileType: FileType;
     resetInfo: ResetInfo | null;
-}
\ No newline at end of file
+    layoutChain: LayoutInfo[];  // Layouts wrapping this file, root first
+}
+export interface IndexedRouteDir {
+    dir: string;
+    files: string[];    // Route files (+page.svelte, +server.ts, ...) in the directory
+    otherFiles: string[];   // Files SvelteKit ignores, e.g. colocated components or misnamed route files
+    subdirs: string[];  // Names of the child directories
+}
+
+// Lists the file names of a directory, used to read layouts from the route index instead of the disk
+export type DirectoryReader = (dir: string) => string[];
+
+export interface SvelteKitFiles {
+    routes: string;
+    params: string;
+    lib: string;
+    assets: string;
+    hooks: {
+        server: string;
+        client: string;
+        universal: string;
+    };
+}
+
+// The `trailingSlash` page option of a route
+export type TrailingSlash = 'always' | 'never' | 'ignore';
+
+// The `prerender` page option of a route
+export type PrerenderOption = boolean | 'auto';
+
+// A running dev server found by probing ports or in terminal output
+export interface DevServer {
+    origin: string;
+    port: number;
+}
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+// A route SvelteKit would refuse to build, or that can never be rendered
+export interface RouteProblem {
+    kind: 'conflict' | 'unreachable';
+    routeId: string;
+    filePath: string;
+    otherRouteId: string;       // The route it conflicts with, or that takes precedence over it
+    otherFilePath: string;
+    message: string;
+}
+
+export type RouteLintCode =
+    | 'reserved-name'           // `+` file SvelteKit doesn't know, e.g. +Page.svelte
+    | 'missing-plus'            // page.svelte instead of +page.svelte
+    | 'legacy-route-file'       // index.svelte, __layout.svelte or [slug].svelte from before SvelteKit 1.0
+    | 'duplicate-route-file'    // e.g. +page.ts next to +page.js
+    | 'page-without-component'  // +page.ts without a +page.svelte
+    | 'layout-without-pages';   // a layout no page below it uses, e.g. next to a lone +server.ts
+
+// A change to the route files that fixes a lint problem
+export interface RouteLintFix {
+    kind: 'rename' | 'move' | 'create';
+    title: string;
+    target: string;             // Path of the renamed, moved or created file
+}
+
+// A route file SvelteKit would skip, reject or never use
+export interface RouteLintProblem {
+    code: RouteLintCode;
+    severity: 'error' | 'warning';
+    filePath: string;
+    message: string;
+    fixes: RouteLintFix[];
+}
+
+// The route a pathname resolves to, with the param values taken from it
+export interface RouteMatch {
+    routeId: string;
+    filePath: string;
+    params: Record<string, string>;
+}
+
+// An internal link in a component or module, e.g. `href="/blog"` or `goto('/login')`
+export interface RouteLink {
+    kind: 'href' | 'action' | 'goto' | 'redirect';
+    path: string;               // The pathname up to the query, hash or first interpolation
+    dynamic: boolean;           // Whether an interpolation follows, as in `/blog/${slug}`
+    template: string;           // The whole pathname, with `*` for each interpolation
+    start: number;              // Offsets of the whole pathname in the source
+    end: number;
+}
+
+// The route or static file an internal link leads to
+export interface RouteLinkTarget {
+    filePath: string;
+    route: RouteMatch | null;   // null for static files
+}
+
+// A route written to the generated route helper module
+export interface RouteHelperRoute {
+    id: string;
+    trailingSlash: TrailingSlash;
+}
+
+export interface RouteHelperOptions {
+    base: string;                               // `kit.paths.base`
+    routesDir: string;                          // Shown in the header, relative to the project
+    matcherImports: Record<string, string>;     // Import specifier of each matcher module, by matcher name
+}
+
+export type RouteExportFormat = 'json' | 'markdown' | 'csv' | 'mermaid' | 'graphviz';
+
+// What to include in an export, everything by default
+export interface RouteExportOptions {
+    groups: boolean;        // Group directories like (app), e.g. ones holding only a layout
+    endpoints: boolean;     // +server files
+    errorPages: boolean;    // +error.svelte files
+}
+
+export interface RouteManifestFile {
+    type: FileType;
+    path: string;   // Relative to the project root, with forward slashes
+}
+
+// A directory of the routes tree with route files, as written to the route manifest
+export interface RouteManifestEntry {
+    id: string;                     // e.g. /(app)/blog/[slug=slug]
+    pattern: string;                // The URL it serves, e.g. /blog/:slug
+    params: { name: string; matcher: string | null; optional: boolean; rest: boolean }[];
+    matchers: string[];
+    files: RouteManifestFile[];
+    layouts: string[];              // Route ids of the layouts wrapping it, root first
+    groups: string[];
+    reset: string | null;           // Layout the page or layout resets to, e.g. root
+}
+
+export interface RouteManifest {
+    base: string;                   // `kit.paths.base`
+    routes: RouteManifestEntry[];
+}
+
+// A page route left out of the sitemap, and why
+export interface SitemapSkippedRoute {
+    routeId: string;
+    reason: string;
+}
+
+export interface SitemapResult {
+    output: string;
+    urls: string[];
+    skipped: SitemapSkippedRoute[];
+}
+
+// A directory of the routes tree drawn in the route graph
+export interface RouteGraphNode {
+    id: string;                 // Route id
+    label: string;              // Its last segment
+    type: RouteType;
+    filePath: string | null;    // File opened on click: the page, endpoint, layout or error page
+    files: string[];            // Names of its route files
+    reset: string | null;
+    x: number;
+    y: number;
+}
+
+export interface RouteGraphEdge {
+    from: string;
+    to: string;
+    kind: 'child' | 'reset';    // Reset edges point to the layout a page or layout resets to
+}
+
+// A box drawn around the routes of a group
+export interface RouteGraphContainer {
+    id: string;
+    label: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface RouteGraph {
+    nodes: RouteGraphNode[];
+    edges: RouteGraphEdge[];
+    containers: RouteGraphContainer[];
+    width: number;
+    height: number;
+}
+
+// Route files the New Route wizard can create
+export type RouteScaffoldFile = 'page' | 'pageServer' | 'layout' | 'error' | 'server';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RouteScaffoldOptions {
+    routeId: string;
+    typescript: boolean;
+    runes: boolean;             // Svelte 5 props and snippets instead of `export let` and slots
+    methods: HttpMethod[];      // Handlers of +server files
+}
+
+export interface RouteScaffoldResult {
+    fileName: string;
+    content: string;
+}
@@ -2,5 +2,15 @@ export
 interface WorkspaceConfig {
     projectRoot?: string;
     port?: number;
+    origin?: string;     // Dev server origin, e.g. https://app.localhost:8443
     enablePageContentView?: boolean;
+    templates?: string;  // Folder of route file templates, relative to the workspace folder
+    projects?: (string | WorkspaceProjectConfig)[];
+}
+
+export interface WorkspaceProjectConfig {
+    root: string;       // Relative to the workspace folder
+    name?: string;
+    port?: number;
+    origin?: string;
 }
\ No newline at end of file
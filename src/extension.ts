@@ -2,6 +2,19 @@ import * as vscode from 'vscode';
 import { RoutesProvider } from './providers/routesProvider';
 import { RouteItem } from './models/routeItem';
 import { PageContentProvider } from './providers/pageContentProvider';
+import { RouteParamPrompt } from './utils/routeParamPrompt';
+import { DevServerStatusBar } from './providers/devServerStatusBar';
+import { RoutePreviewPanel } from './providers/routePreviewPanel';
+import { RouteDiagnostics } from './providers/routeDiagnostics';
+import { RouteLinter } from './providers/routeLinter';
+import { LinkValidator } from './providers/linkValidator';
+import { LINK_DOCUMENTS, RouteLinkProvider } from './providers/routeLinkProvider';
+import { COMPLETION_TRIGGER_CHARACTERS, RouteCompletionProvider } from './providers/routeCompletionProvider';
+import { RouteHelperGenerator } from './providers/routeHelperGenerator';
+import { RouteExporter } from './providers/routeExporter';
+import { SitemapGenerator } from './providers/sitemapGenerator';
+import { RouteGraphPanel } from './providers/routeGraphPanel';
+import { RouteScaffolder } from './providers/routeScaffolder';
 import { ContentItemType, PageContentItem } from './models/pageContentItem';
 import path from 'path';
 import fs from 'fs';
@@ -9,6 +22,53 @@ import fs from 'fs';
 export function activate(context: vscode.ExtensionContext) {
 	// Initialize the routes provider
 	const routesProvider = new RoutesProvider();
+	context.subscriptions.push(routesProvider);
+	
+	// Remembers the param values entered when opening dynamic routes in the browser
+	const paramPrompt = new RouteParamPrompt(context.workspaceState);
+	
+	// Shows the dev server state and the URL of the active route
+	const devServerStatusBar = new DevServerStatusBar(routesProvider, paramPrompt);
+	context.subscriptions.push(devServerStatusBar);
+
+	// Embedded preview that follows the active route file
+	const routePreview = new RoutePreviewPanel(routesProvider, paramPrompt);
+	context.subscriptions.push(routePreview);
+
+	// Conflicting and unreachable routes show up in the Problems panel
+	context.subscriptions.push(new RouteDiagnostics(routesProvider));
+
+	// Misnamed route files show up in the Problems panel, with quick fixes
+	const routeLinter = new RouteLinter(routesProvider);
+	context.subscriptions.push(routeLinter);
+
+	// Links to paths no route serves show up in the Problems panel
+	const linkValidator = new LinkValidator(routesProvider);
+	context.subscriptions.push(linkValidator);
+
+	// Typed route() helpers, regenerated as routes change when watching
+	const routeHelperGenerator = new RouteHelperGenerator(routesProvider);
+	context.subscriptions.push(routeHelperGenerator);
+
+	const routeExporter = new RouteExporter(routesProvider);
+	const sitemapGenerator = new SitemapGenerator(routesProvider);
+	const routeScaffolder = new RouteScaffolder(routesProvider);
+
+	// Zoomable graph of the routes, for apps too large for the tree
+	const routeGraph = new RouteGraphPanel(routesProvider);
+	context.subscriptions.push(routeGraph);
+
+	// Ctrl+click, hover and path completion for internal links
+	const routeLinkProvider = new RouteLinkProvider(routesProvider);
+	context.subscriptions.push(
+		vscode.languages.registerDocumentLinkProvider(LINK_DOCUMENTS, routeLinkProvider),
+		vscode.languages.registerHoverProvider(LINK_DOCUMENTS, routeLinkProvider),
+		vscode.languages.registerCompletionItemProvider(
+			LINK_DOCUMENTS,
+			new RouteCompletionProvider(routesProvider),
+			...COMPLETION_TRIGGER_CHARACTERS
+		)
+	);
 	
 	// Initialize the page content provider
 	const pageContentProvider = new PageContentProvider();
@@ -25,14 +85,50 @@ export function activate(context: vscode.ExtensionContext) {
 		showCollapseAll: false
 	});
 
+	// Follow the active editor by revealing its route instead of rebuilding the tree
+	const revealActiveFile = async () => {
+		const autoReveal = vscode.workspace.getConfiguration('svelteRadar').get('autoReveal', true);
+		const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+		if (!autoReveal || !filePath || !routesTreeView.visible) {
+			return;
+		}
+
+		const item = await routesProvider.getItemForFile(filePath);
+		if (item) {
+			routesTreeView.reveal(item, { select: true, focus: false, expand: true })
+				.then(undefined, (error: Error) => console.error('Error revealing route:', error));
+		}
+	};
+
+	// Show where the dev server of the active project was found
+	const showDevServer = () => {
+		if (!vscode.workspace.workspaceFolders) {
+			return;
+		}
+		const devServer = routesProvider.getActiveProject().devServer;
+		routesTreeView.description = devServer ? `dev server on ${new URL(devServer.origin).host}` : undefined;
+	};
+
+	context.subscriptions.push(
+		vscode.window.onDidChangeActiveTextEditor(revealActiveFile),
+		vscode.window.onDidChangeActiveTextEditor(showDevServer),
+		routesTreeView.onDidChangeVisibility(revealActiveFile),
+		routesProvider.onDidChangeTreeData(showDevServer)
+	);
+
 	const workspaceFolders = vscode.workspace.workspaceFolders;
     if (workspaceFolders) {
         const workspaceRoot = workspaceFolders[0].uri.fsPath;
-        const routesDir = routesProvider.getRoutesDir();
+        const projects = routesProvider.getProjects();
+        const routesDir = projects[0].getRoutesDir();
+
+        // Find the ports the dev servers actually run on in the background
+        routesProvider.detectDevServers();
         
-        if (!fs.existsSync(routesDir)) {
+        // routesDir already honours `kit.files.routes` from svelte.config
+        if (!projects.some(project => fs.existsSync(project.getRoutesDir()))) {
             vscode.window.showWarningMessage(
-                'SvelteKit routes directory not found. Create .vscode/svelte-radar.json to configure root of your sveltekit project.',
+                `SvelteKit routes directory not found at ${routesDir}. Create .vscode/svelte-radar.json to configure root of your sveltekit project.`,
                 'Create Config'
             ).then(selection => {
                 if (selection === 'Create Config') {
@@ -75,7 +171,132 @@ export function activate(context: vscode.ExtensionContext) {
 		},
 		{
 			command: 'svelteRadar.refreshRoutes',
-			callback: () => routesProvider.refresh()
+			callback: () => {
+				routesProvider.refresh();
+				routesProvider.detectDevServers();
+			}
+		},
+		{
+			command: 'svelteRadar.lintRoutes',
+			callback: async () => {
+				const problems = await routeLinter.lint();
+				if (problems.length === 0) {
+					vscode.window.showInformationMessage('No problems found in route files.');
+					return;
+				}
+
+				const selection = await vscode.window.showWarningMessage(
+					`Found ${problems.length} problem${problems.length === 1 ? '' : 's'} in route files.`,
+					'Show Problems'
+				);
+				if (selection === 'Show Problems') {
+					vscode.commands.executeCommand('workbench.actions.view.problems');
+				}
+			}
+		},
+		{
+			command: 'svelteRadar.validateLinks',
+			callback: async () => {
+				const broken = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: 'Checking links', cancellable: true },
+					(_progress, token) => linkValidator.validateWorkspace(token)
+				);
+				if (broken === 0) {
+					vscode.window.showInformationMessage('No broken links found.');
+					return;
+				}
+
+				const selection = await vscode.window.showWarningMessage(
+					`Found ${broken} broken link${broken === 1 ? '' : 's'}.`,
+					'Show Problems'
+				);
+				if (selection === 'Show Problems') {
+					vscode.commands.executeCommand('workbench.actions.view.problems');
+				}
+			}
+		},
+		{
+			command: 'svelteRadar.generateRouteHelpers',
+			callback: async () => {
+				const outputs = await routeHelperGenerator.generate();
+				if (outputs.length === 0) {
+					vscode.window.showWarningMessage('No routes directory found to generate route helpers from.');
+					return;
+				}
+
+				const names = outputs.map(output => vscode.workspace.asRelativePath(output)).join(', ');
+				const selection = await vscode.window.showInformationMessage(`Generated route helpers in ${names}.`, 'Open');
+				if (selection === 'Open') {
+					vscode.window.showTextDocument(vscode.Uri.file(outputs[0]));
+				}
+			}
+		},
+		{
+			command: 'svelteRadar.exportRoutes',
+			callback: async () => {
+				const output = await routeExporter.export();
+				if (!output) {
+					return;
+				}
+
+				const selection = await vscode.window.showInformationMessage(
+					`Exported routes to ${vscode.workspace.asRelativePath(output)}.`,
+					'Open'
+				);
+				if (selection === 'Open') {
+					vscode.window.showTextDocument(vscode.Uri.file(output));
+				}
+			}
+		},
+		{
+			command: 'svelteRadar.generateSitemap',
+			callback: async () => {
+				const project = routesProvider.getActiveProject();
+				if (!project || !fs.existsSync(project.getRoutesDir())) {
+					vscode.window.showWarningMessage('No routes directory found to generate a sitemap from.');
+					return;
+				}
+
+				// Sitemaps need absolute URLs, the dev server origin is no use there
+				const siteUrl = vscode.workspace.getConfiguration('svelteRadar').get<string>('sitemap.siteUrl') ||
+					await vscode.window.showInputBox({
+						prompt: 'Site URL for the sitemap (set svelteRadar.sitemap.siteUrl to skip this)',
+						placeHolder: 'https://example.com',
+						validateInput: value => /^https?:\/\/[^/]+/.test(value) ? null : 'Enter an absolute URL, e.g. https://example.com'
+					});
+				if (!siteUrl) {
+					return;
+				}
+
+				try {
+					const { output, urls, skipped } = await sitemapGenerator.generate(project, siteUrl);
+					const message = `Wrote ${urls.length} URL${urls.length === 1 ? '' : 's'} to ${vscode.workspace.asRelativePath(output)}.` +
+						(skipped.length > 0 ? ` Skipped ${skipped.length} route${skipped.length === 1 ? '' : 's'}.` : '');
+					const selection = await vscode.window.showInformationMessage(
+						message,
+						'Open',
+						...(skipped.length > 0 ? ['Show Skipped'] : [])
+					);
+					if (selection === 'Open') {
+						vscode.window.showTextDocument(vscode.Uri.file(output));
+					} else if (selection === 'Show Skipped') {
+						vscode.window.showQuickPick(
+							skipped.map(route => ({ label: route.routeId, description: route.reason })),
+							{ placeHolder: 'Routes left out of the sitemap' }
+						);
+					}
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to generate the sitemap: ${error instanceof Error ? error.message : error}`);
+				}
+			}
+		},
+		{
+			command: 'svelteRadar.newRoute',
+			callback: (parent?: RouteItem) => routeScaffolder.newRoute(parent)
+		},
+		{
+			command: 'svelteRadar.showRouteGraph',
+			callback: () => routeGraph.show()
 		},
 		{
 			command: 'svelteRadar.toggleViewType',
@@ -91,23 +312,38 @@ export function activate(context: vscode.ExtensionContext) {
 		},
 		{
 			command: 'svelteRadar.openInBrowser',
-			callback: (route: RouteItem) => {
-				if (route.routeType !== 'divider' && route.routePath !== 'spacer') {
-					const port = routesProvider.getPort();
-					const cleanPath = route.routePath
-						.replace(/\\/g, '/')
-						.replace(/^\([^)]+\)\//, '')  // Remove root level group
-						.replace(/\/\([^)]+\)\//g, '/'); // Remove nested groups
-					
-					// Handle root path specially
-					const url = cleanPath === '/' 
-						? `http://localhost:${port}/`
-						: `http://localhost:${port}/${cleanPath}`;
-						
+			callback: async (route: RouteItem) => {
+				if (route.routeType === 'divider' || route.routeType === 'spacer') {
+					return;
+				}
+
+				const target = vscode.workspace.getConfiguration('svelteRadar').get<string>('browserTarget', 'external');
+				if (target === 'preview') {
+					await routePreview.show(route);
+					return;
+				}
+
+				// Dynamic routes prompt for their param values first
+				const url = await routesProvider.getRouteUrl(route, paramPrompt);
+				if (url && target === 'simpleBrowser') {
+					vscode.commands.executeCommand('simpleBrowser.show', url);
+				} else if (url) {
 					vscode.env.openExternal(vscode.Uri.parse(url));
 				}
 			}
 		},
+		{
+			command: 'svelteRadar.openInPreview',
+			callback: async (route: RouteItem) => {
+				if (route.routeType !== 'divider' && route.routeType !== 'spacer') {
+					await routePreview.show(route);
+				}
+			}
+		},
+		{
+			command: 'svelteRadar.devServerActions',
+			callback: () => devServerStatusBar.showActions()
+		},
 		{
 			command: 'svelteRadar.openFile',
 			callback: (route: RouteItem) => {
@@ -116,6 +352,40 @@ export function activate(context: vscode.ExtensionContext) {
 				}
 			}
 		},
+		{
+			command: 'svelteRadar.openLayout',
+			callback: async (route?: RouteItem) => {
+				const filePath = route?.filePath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+				if (!filePath) {
+					return;
+				}
+
+				const layoutChain = route?.layoutChain ?? routesProvider.getLayoutChain(filePath);
+				if (layoutChain.length === 0) {
+					vscode.window.showInformationMessage('No layouts apply to this route.');
+					return;
+				}
+
+				// Closest layout first, with the load files feeding each layout
+				const items = [...layoutChain].reverse().flatMap(layout =>
+					[layout.component, ...layout.loadFiles]
+						.filter((file): file is string => !!file)
+						.map(file => ({
+							label: path.basename(file),
+							description: layout.routeId,
+							detail: layout.resetInfo ? `resets to ${layout.resetInfo.displayName}` : undefined,
+							filePath: file
+						}))
+				);
+
+				const selected = await vscode.window.showQuickPick(items, {
+					placeHolder: 'Select a layout to open'
+				});
+				if (selected) {
+					vscode.window.showTextDocument(vscode.Uri.file(selected.filePath));
+				}
+			}
+		},
 		{
 			command: 'svelteRadar.toggleSorting',
 			callback: async () => {
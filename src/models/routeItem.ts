@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
-import { FileType, ResetInfo, RouteType } from "../constant/type";
+import { FileType, LayoutInfo, ResetInfo, RouteType } from "../constant/type";
 import { basename } from "path";
+import { RouteUtils } from "../utils/routeUtils";
 
 export class RouteItem extends vscode.TreeItem {
   constructor(
@@ -8,15 +9,18 @@ export class RouteItem extends vscode.TreeItem {
     public readonly routePath: string,
     public readonly filePath: string,
     public children: RouteItem[],
-    private port: number,
+    public readonly port: number,
     public routeType: RouteType,
     public isHierarchical: boolean = false,
     public resetInfo: ResetInfo | null = null,
-    public fileType: FileType = "page"
+    public fileType: FileType = "page",
+    public layoutChain: LayoutInfo[] = []
   ) {
     super(
       label,
-      isHierarchical && children.length > 0
+      routeType === "project"
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : isHierarchical && children.length > 0
         ? vscode.TreeItemCollapsibleState.Collapsed
         : vscode.TreeItemCollapsibleState.None
     );
@@ -26,6 +30,8 @@ export class RouteItem extends vscode.TreeItem {
         ? "divider"
         : routeType === "spacer"
         ? "spacer"
+        : routeType === "project"
+        ? "project"
         : "route";
 
     // Format the label and description
@@ -36,6 +42,12 @@ export class RouteItem extends vscode.TreeItem {
       this.tooltip = "";
       this.command = undefined;
       this.iconPath = undefined;
+    } else if (routeType === "project") {
+      // Top-level node of a SvelteKit app when the workspace has several
+      this.description = `:${port}`;
+      this.tooltip = `${label} (port ${port})`;
+      this.command = undefined;
+      this.iconPath = new vscode.ThemeIcon("package");
     } else {
       this.description = this.formatDescription();
       this.label = isHierarchical
@@ -72,31 +84,39 @@ export class RouteItem extends vscode.TreeItem {
           icon = "symbol-variable";
           color = "charts.blue";
           break;
+        case "matcher":
+          icon = "symbol-variable";
+          color = "charts.blue";
+          break;
         default:
       }
 
-      const fileName = basename(filePath);
-      if (fileName) {
-        if (fileName.includes("+server.")) {
-          icon = "server-process";
-          color = "charts.orange";
-        } else if (fileName.includes(".server.")) {
-          icon = "server";
-          color = "charts.yellow"; // server-side files get yellow
-        } else if (
-          (fileName.includes(".ts") || fileName.includes(".js")) &&
-          !fileName.includes(".server.")
-        ) {
-          icon = "vm";
-          color = "charts.blue"; // client-side TS files get blue
-        } else if (fileName.includes("+layout.")) {
-          icon = "layout";
-          color = "charts.purple";
-        } else if (fileName.includes("+error.")) {
-          icon = "error";
-          color = "errorForeground";
+      if (filePath) {
+        switch (fileType) {
+          case "server":
+            icon = "server-process";
+            color = "charts.orange";
+            break;
+          case "pageServer":
+          case "layoutServer":
+            icon = "server";
+            color = "charts.yellow"; // server-side files get yellow
+            break;
+          case "pageClient":
+          case "layoutClient":
+            icon = "vm";
+            color = "charts.blue"; // client-side TS files get blue
+            break;
+          case "layout":
+            icon = "layout";
+            color = "charts.purple";
+            break;
+          case "error":
+            icon = "error";
+            color = "errorForeground";
+            break;
+          // Regular page files will keep their route type colors
         }
-        // Regular page files will keep their route type colors
       }
 
       // ignoring the private constructor error here
@@ -120,20 +140,22 @@ export class RouteItem extends vscode.TreeItem {
         filePath,
         fileType
       );
-
-      // if active file then highlight the label
-      const activeFilePath =
-        vscode.window.activeTextEditor?.document.uri.fsPath;
-
-      if (filePath === activeFilePath) {
-        this.label = {
-          label: this.label as string,
-          highlights: [[0, (label as string).length]],
-        };
-      }
     }
   }
 
+  /**
+   * Flags a route that conflicts with another route or can't be reached
+   */
+  markProblems(messages: string[]) {
+    this.iconPath = new vscode.ThemeIcon(
+      "warning",
+      new vscode.ThemeColor("problemsWarningIcon.foreground")
+    );
+    this.tooltip = [this.tooltip, ...messages.map((message) => `⚠ ${message}`)]
+      .filter(Boolean)
+      .join("\n");
+  }
+
   private isGroupRoute(): boolean {
     return this.routePath.includes("(") && this.routePath.includes(")");
   }
@@ -152,11 +174,26 @@ export class RouteItem extends vscode.TreeItem {
       filePath ? `File: ${filePath}` : "",
       fileType ? `Type: ${fileType}` : "",
       this.isGroupRoute() ? "Group Route" : "",
+      this.formatLayoutChain(),
     ]
       .filter(Boolean)
       .join("\n");
   }
 
+  private formatLayoutChain(): string {
+    if (this.layoutChain.length === 0) {
+      return "";
+    }
+
+    const lines = this.layoutChain.map((layout) => {
+      const files = [layout.component, ...layout.loadFiles]
+        .filter((file): file is string => !!file)
+        .map((file) => basename(file));
+      return `  ${layout.routeId} (${files.join(", ")})`;
+    });
+    return ["Layouts:", ...lines].join("\n");
+  }
+
   private formatDisplayPath(path: string): string {
     // For root level groups, we don't modify the path since it will be shown in divider
     if (this.routeType === "divider") {
@@ -169,11 +206,11 @@ export class RouteItem extends vscode.TreeItem {
       .replace(/^\([^)]+\)\//, "") // Remove root level group
       .replace(/\/\([^)]+\)\//g, "/"); // Remove nested groups
 
+    // [...param] -> *param, [[param]] -> :param?, [param=matcher] -> :param, post-[slug] -> post-:slug
     return cleanPath
-      .replace(/\[\.\.\.(\w+(?:-\w+)*)\]/g, "*$1") // [...param] -> *param
-      .replace(/\[\[(\w+(?:-\w+)*)\]\]/g, ":$1?") // [[param]] -> :param?
-      .replace(/\[(\w+(?:-\w+)*)=\w+\]/g, ":$1") // [param=matcher] -> :param
-      .replace(/\[(\w+(?:-\w+)*)\]/g, ":$1"); // [param] -> :param
+      .split("/")
+      .map((segment) => RouteUtils.formatSegment(segment))
+      .join("/");
   }
 
   private formatDescription(): string {
@@ -191,19 +228,21 @@ export class RouteItem extends vscode.TreeItem {
       divider: "",
       matcher: "matcher",
       spacer: "",
+      project: "",
     };
 
-    // Determine file type based on filename first
-    const fileName = this.filePath ? basename(this.filePath) : "";
+    const fileType = this.filePath ? this.fileType : null;
 
     // Add route type only for actual pages (not for layouts, servers, etc)
     if (
       this.routeType !== "divider" &&
-      !fileName.includes("+layout.") &&
-      !fileName.includes("+server.")
+      fileType !== "layout" &&
+      fileType !== "layoutClient" &&
+      fileType !== "layoutServer" &&
+      fileType !== "server"
     ) {
       const hasMultipleTypes =
-        (this.routePath?.match(/\[[^\]]+\]/g) ?? []).length > 1;
+        RouteUtils.getRouteParams(this.routePath ?? "").length > 1;
       const displayType = hasMultipleTypes
         ? "dynamic"
         : typeMap[this.routeType];
@@ -211,26 +250,24 @@ export class RouteItem extends vscode.TreeItem {
     }
 
     // Add file type indicators
-    if (fileName) {
-      if (fileName.includes("+server.")) {
+    switch (fileType) {
+      case "server":
         parts.push("[api]");
-      } else if (
-        fileName.includes("+page.server.") ||
-        fileName.includes("+layout.server.")
-      ) {
+        break;
+      case "pageServer":
+      case "layoutServer":
         parts.push("[server]");
-      } else if (fileName.includes("+error.")) {
+        break;
+      case "error":
         parts.push("[error]");
-      } else if (
-        fileName.includes("+layout.ts") ||
-        fileName.includes("+page.ts") ||
-        fileName.includes("+layout.js") ||
-        fileName.includes("+page.js")
-      ) {
+        break;
+      case "pageClient":
+      case "layoutClient":
         parts.push("[client]");
-      } else if (fileName.includes("+layout.")) {
+        break;
+      case "layout":
         parts.push("[layout]");
-      }
+        break;
     }
 
     // Add group info if it's inside a group
@@ -240,9 +277,11 @@ export class RouteItem extends vscode.TreeItem {
     }
 
     // Add matcher info if present
-    const matcherMatch = this.routePath.match(/\[(\w+)=(\w+)\]/);
-    if (matcherMatch) {
-      parts.push(`[${matcherMatch[2]}]`);
+    const matchers = RouteUtils.getRouteParams(this.routePath)
+      .map((param) => param.matcher)
+      .filter(Boolean);
+    if (matchers.length > 0) {
+      parts.push(`[${matchers.join(", ")}]`);
     }
 
     // Add reset info if present
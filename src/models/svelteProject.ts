@@ -0,0 +1,146 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DevServer, SvelteKitFiles } from "../constant/type";
+import { SvelteConfigUtils } from "../utils/svelteConfigUtils";
+import { ParamMatcherRegistry } from "../utils/paramMatcherRegistry";
+import { RouteIndex } from "../utils/routeIndex";
+
+/**
+ * A SvelteKit app in the workspace, with its own routes and dev server origin
+ */
+export class SvelteProject implements vscode.Disposable {
+  private kitFiles: SvelteKitFiles | undefined;
+  private basePath: string | undefined;
+  private paramMatchers: ParamMatcherRegistry | undefined;
+  private routeIndex: RouteIndex | undefined;
+  private derived = new Map<string, { version: string; value: unknown }>();
+
+  // The running dev server, when one was detected
+  devServer: DevServer | undefined;
+
+  constructor(
+    public readonly root: string,
+    public readonly name: string,
+    public readonly port: number,
+    private readonly origin?: string
+  ) {}
+
+  /**
+   * Returns the origin the dev server runs on: the configured one, the
+   * detected one, or `http://localhost:<port>`
+   */
+  getOrigin(): string {
+    return this.origin ?? this.devServer?.origin ?? `http://localhost:${this.port}`;
+  }
+
+  /**
+   * Returns the port of the detected dev server, or the configured port
+   */
+  getPort(): number {
+    return this.devServer?.port ?? this.port;
+  }
+
+  /**
+   * Whether the origin is set in the config, in which case there is nothing to detect
+   */
+  hasConfiguredOrigin(): boolean {
+    return this.origin !== undefined;
+  }
+
+  /**
+   * Returns `kit.paths.base` from svelte.config, or an empty string
+   */
+  getBasePath(): string {
+    if (this.basePath === undefined) {
+      this.basePath = SvelteConfigUtils.resolveBasePath(this.root);
+    }
+    return this.basePath;
+  }
+
+  /**
+   * Returns the project's file locations, as configured by `kit.files` in svelte.config
+   */
+  getKitFiles(): SvelteKitFiles {
+    if (!this.kitFiles) {
+      this.kitFiles = SvelteConfigUtils.resolveKitFiles(this.root);
+    }
+    return this.kitFiles;
+  }
+
+  getRoutesDir(): string {
+    return this.getKitFiles().routes;
+  }
+
+  /**
+   * Returns the registry of param matchers defined in the params directory
+   */
+  getParamMatchers(): ParamMatcherRegistry {
+    if (!this.paramMatchers) {
+      this.paramMatchers = new ParamMatcherRegistry(this.getKitFiles());
+    }
+    return this.paramMatchers;
+  }
+
+  /**
+   * Returns the index of the routes directory, which is kept up to date by a watcher
+   */
+  getRouteIndex(): RouteIndex {
+    if (!this.routeIndex) {
+      this.routeIndex = new RouteIndex(this.getRoutesDir());
+    }
+    return this.routeIndex;
+  }
+
+  /**
+   * Returns a value computed from the routes, like their problems. It is
+   * computed again only once the route index or the param matchers changed.
+   */
+  getDerived<T>(key: string, compute: () => T): T {
+    const version = `${this.getRouteIndex().version}:${this.getParamMatchers().version}`;
+    const entry = this.derived.get(key);
+    if (entry?.version === version) {
+      return entry.value as T;
+    }
+
+    const value = compute();
+    this.derived.set(key, { version, value });
+    return value;
+  }
+
+  /**
+   * Whether the project is written in TypeScript, i.e. has a tsconfig.json
+   */
+  usesTypeScript(): boolean {
+    return fs.existsSync(path.join(this.root, "tsconfig.json"));
+  }
+
+  /**
+   * Returns the major version of Svelte in package.json, or null when it
+   * isn't a plain version range like `^5.0.0`
+   */
+  getSvelteVersion(): number | null {
+    try {
+      const pkg = JSON.parse(
+        fs.readFileSync(path.join(this.root, "package.json"), "utf8")
+      );
+      const range: unknown =
+        pkg.devDependencies?.svelte ?? pkg.dependencies?.svelte;
+      const major =
+        typeof range === "string" ? /^\D*(\d+)/.exec(range) : null;
+      return major ? Number(major[1]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  contains(filePath: string): boolean {
+    const relative = path.relative(this.root, filePath);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+  }
+
+  dispose() {
+    this.routeIndex?.dispose();
+    this.paramMatchers?.dispose();
+  }
+}
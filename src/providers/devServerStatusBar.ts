@@ -0,0 +1,259 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { RoutesProvider } from "./routesProvider";
+import { SvelteProject } from "../models/svelteProject";
+import { DevServerDetector } from "../utils/devServerDetector";
+import { ProjectUtils } from "../utils/projectUtils";
+import { RouteParamPrompt } from "../utils/routeParamPrompt";
+import { RouteUtils } from "../utils/routeUtils";
+
+// How often to check whether the dev server is (still) running
+const POLL_INTERVAL = 15000;
+
+// After starting the dev server, check every second for this long
+const STARTUP_CHECKS = 30;
+
+interface DevServerAction extends vscode.QuickPickItem {
+  run: () => Promise<void>;
+}
+
+/**
+ * Status bar item showing whether the dev server of the active project is
+ * reachable and which route the active editor belongs to. Clicking it
+ * offers to open or copy the route URL, or to start the dev server.
+ */
+export class DevServerStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  // Keyed by project root, projects are recreated when the config reloads
+  private running = new Map<string, boolean>();
+  private checking: Promise<void> | undefined;
+  private updates = 0;
+  private pollInterval: NodeJS.Timeout;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly routesProvider: RoutesProvider,
+    private readonly paramPrompt: RouteParamPrompt
+  ) {
+    this.item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      100
+    );
+    this.item.command = "svelteRadar.devServerActions";
+
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+      // Fires when projects are reloaded or a dev server is detected
+      routesProvider.onDidChangeTreeData(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("svelteRadar.showStatusBar")) {
+          this.update();
+        }
+      })
+    );
+
+    this.pollInterval = setInterval(() => this.checkServer(), POLL_INTERVAL);
+    this.update();
+  }
+
+  /**
+   * Shows the actions for the dev server and the route of the active editor
+   */
+  async showActions(): Promise<void> {
+    if (!vscode.workspace.workspaceFolders) {
+      return;
+    }
+
+    const project = this.routesProvider.getActiveProject();
+    const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const routeId =
+      (filePath && this.routesProvider.getRouteIdForFile(filePath)) || "/";
+    const route = { filePath: filePath ?? "", routePath: routeId };
+
+    const actions: DevServerAction[] = [
+      {
+        label: "$(globe) Open in Browser",
+        description: routeId,
+        run: async () => {
+          const url = await this.routesProvider.getRouteUrl(route, this.paramPrompt);
+          if (url) {
+            await vscode.env.openExternal(vscode.Uri.parse(url));
+          }
+        },
+      },
+      {
+        label: "$(copy) Copy URL",
+        description: routeId,
+        run: async () => {
+          const url = await this.routesProvider.getRouteUrl(route, this.paramPrompt);
+          if (url) {
+            await vscode.env.clipboard.writeText(url);
+            vscode.window.setStatusBarMessage(`Copied ${url}`, 3000);
+          }
+        },
+      },
+    ];
+
+    if (!this.running.get(project.root)) {
+      actions.push({
+        label: "$(play) Start Dev Server",
+        description: project.name,
+        run: () => this.startDevServer(project),
+      });
+    }
+
+    const selected = await vscode.window.showQuickPick(actions, {
+      placeHolder: `${project.name} dev server`,
+    });
+    await selected?.run();
+  }
+
+  dispose() {
+    clearInterval(this.pollInterval);
+    this.item.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private update() {
+    // Only the latest update gets shown
+    const update = ++this.updates;
+    this.render(update).catch((error) =>
+      console.error("Error updating the dev server status:", error)
+    );
+  }
+
+  private async render(update: number) {
+    const enabled = vscode.workspace
+      .getConfiguration("svelteRadar")
+      .get("showStatusBar", true);
+    if (!enabled || !vscode.workspace.workspaceFolders) {
+      this.item.hide();
+      return;
+    }
+
+    const project = this.routesProvider.getActiveProject();
+    if (!this.running.has(project.root)) {
+      this.checkServer();
+    }
+
+    const running = this.running.get(project.root);
+    const origin = project.getOrigin();
+    const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const routeId = filePath && this.routesProvider.getRouteIdForFile(filePath);
+    const url = routeId
+      ? await this.routesProvider.formatRouteUrl(
+          project,
+          routeId,
+          this.getDisplayValues(project, routeId)
+        )
+      : origin;
+    if (update !== this.updates) {
+      return;
+    }
+
+    const icon =
+      running === undefined
+        ? "$(loading~spin)"
+        : running
+        ? "$(radio-tower)"
+        : "$(debug-disconnect)";
+    this.item.text = `${icon} ${url.replace(/^[a-z]+:\/\//, "")}`;
+    this.item.tooltip = [
+      running
+        ? `Dev server of ${project.name} running at ${origin}`
+        : `Dev server of ${project.name} not reachable at ${origin}`,
+      routeId ? `Route: ${routeId}` : "",
+      routeId ? `URL: ${url}` : "",
+      "Click for dev server actions",
+    ]
+      .filter(Boolean)
+      .join("\n");
+    this.item.show();
+  }
+
+  /**
+   * Checks whether the active project's dev server is reachable, looking
+   * for it on other ports unless the origin is configured
+   */
+  private checkServer(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.probeActiveProject().finally(() => {
+        this.checking = undefined;
+      });
+    }
+    return this.checking;
+  }
+
+  private async probeActiveProject(): Promise<void> {
+    if (!vscode.workspace.workspaceFolders) {
+      return;
+    }
+
+    const project = this.routesProvider.getActiveProject();
+    let running: boolean;
+    if (project.hasConfiguredOrigin()) {
+      running = await DevServerDetector.probe(project.getOrigin());
+    } else {
+      await this.routesProvider.detectDevServers();
+      running = project.devServer !== undefined;
+    }
+
+    if (this.running.get(project.root) !== running) {
+      this.running.set(project.root, running);
+      this.update();
+    }
+  }
+
+  /**
+   * The param values last entered for a route, and placeholders like
+   * `:slug` for the required ones never entered
+   */
+  private getDisplayValues(
+    project: SvelteProject,
+    routeId: string
+  ): Record<string, string> {
+    const values = this.paramPrompt.getRemembered(`${project.root}:${routeId}`);
+    return Object.fromEntries(
+      RouteUtils.getRouteParams(routeId).map((param) => [
+        param.name,
+        values[param.name] ||
+          (param.optional || param.rest ? "" : `:${param.name}`),
+      ])
+    );
+  }
+
+  /**
+   * Runs the project's `dev` script in a task with the project's package manager
+   */
+  private async startDevServer(project: SvelteProject): Promise<void> {
+    if (!ProjectUtils.getScripts(project.root).dev) {
+      vscode.window.showErrorMessage(
+        `No "dev" script found in ${path.join(project.root, "package.json")}`
+      );
+      return;
+    }
+
+    const packageManager = ProjectUtils.detectPackageManager(project.root);
+    const task = new vscode.Task(
+      { type: "svelteRadar", script: "dev", path: project.root },
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(project.root)) ??
+        vscode.TaskScope.Workspace,
+      `dev - ${project.name}`,
+      "Svelte Radar",
+      new vscode.ShellExecution(`${packageManager} run dev`, {
+        cwd: project.root,
+      })
+    );
+    task.isBackground = true;
+    await vscode.tasks.executeTask(task);
+
+    for (
+      let check = 0;
+      check < STARTUP_CHECKS && !this.running.get(project.root);
+      check++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await this.checkServer();
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import * as fs from "fs";
+import * as vscode from "vscode";
+import { RoutesProvider } from "./routesProvider";
+import { RouteLinkUtils } from "../utils/routeLinkUtils";
+
+// Files that may link to routes
+const SOURCE_FILES = /\.(svelte|ts|js)$/;
+
+const EXCLUDED_DIRS = "**/{node_modules,.svelte-kit,build,dist}/**";
+
+/**
+ * Reports links to paths no route or static asset serves, e.g. `href="/blgo"`.
+ * Files are checked when saved, or all at once on demand.
+ */
+export class LinkValidator implements vscode.Disposable {
+  private collection =
+    vscode.languages.createDiagnosticCollection("svelteRadar.links");
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly routesProvider: RoutesProvider) {
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        if (this.isEnabled() && vscode.workspace.workspaceFolders) {
+          this.validateFile(document.uri.fsPath, document.getText()).catch(
+            (error) => console.error("Error validating links:", error)
+          );
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration("svelteRadar.validateLinks") &&
+          !this.isEnabled()
+        ) {
+          this.collection.clear();
+        }
+      }),
+      // Added or renamed routes may fix the links of files with problems
+      routesProvider.onDidChangeTreeData(() =>
+        this.revalidate().catch((error) =>
+          console.error("Error validating links:", error)
+        )
+      )
+    );
+  }
+
+  /**
+   * Checks the links of every file in the workspace, returning the number of broken ones
+   */
+  async validateWorkspace(token?: vscode.CancellationToken): Promise<number> {
+    const files = await vscode.workspace.findFiles(
+      "**/*.{svelte,ts,js}",
+      EXCLUDED_DIRS,
+      undefined,
+      token
+    );
+
+    this.collection.clear();
+    let broken = 0;
+    for (const uri of files) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+      broken += await this.validateFile(uri.fsPath);
+    }
+    return broken;
+  }
+
+  /**
+   * Checks the links of one file, reading it from disk unless its text is given.
+   * Returns the number of broken links.
+   */
+  async validateFile(filePath: string, text?: string): Promise<number> {
+    const uri = vscode.Uri.file(filePath);
+    const project = this.routesProvider.getProjectForFile(filePath);
+    if (
+      !SOURCE_FILES.test(filePath) ||
+      !project ||
+      !fs.existsSync(project.getRoutesDir())
+    ) {
+      this.collection.delete(uri);
+      return 0;
+    }
+
+    let source: string;
+    try {
+      source = text ?? (await fs.promises.readFile(filePath, "utf8"));
+    } catch {
+      this.collection.delete(uri);
+      return 0;
+    }
+
+    const document = new LineIndex(source);
+    const base = project.getBasePath();
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    // Only fully static links can be checked
+    for (const link of RouteLinkUtils.extractLinks(source)) {
+      if (link.dynamic) {
+        continue;
+      }
+
+      let message: string | undefined;
+      if (base && link.path !== base && !link.path.startsWith(`${base}/`)) {
+        message = `"${link.path}" is outside the base path "${base}"`;
+      } else if (!(await this.routesProvider.resolveLink(filePath, link))) {
+        message = `No route or static file matches "${link.path}"`;
+      }
+
+      if (message) {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            document.positionAt(link.start),
+            document.positionAt(link.end)
+          ),
+          message,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "Svelte Radar";
+        diagnostic.code = "broken-link";
+        diagnostics.push(diagnostic);
+      }
+    }
+
+    if (diagnostics.length > 0) {
+      this.collection.set(uri, diagnostics);
+    } else {
+      this.collection.delete(uri);
+    }
+    return diagnostics.length;
+  }
+
+  dispose() {
+    this.collection.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration("svelteRadar")
+      .get("validateLinks", true);
+  }
+
+  /**
+   * Checks the files with broken links again
+   */
+  private async revalidate() {
+    if (!vscode.workspace.workspaceFolders) {
+      return;
+    }
+
+    const files: string[] = [];
+    this.collection.forEach((uri) => {
+      files.push(uri.fsPath);
+    });
+    for (const filePath of files) {
+      await this.validateFile(filePath);
+    }
+  }
+}
+
+/**
+ * Converts offsets into positions without opening the file as a document
+ */
+class LineIndex {
+  private lineStarts = [0];
+
+  constructor(source: string) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === "\n") {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  positionAt(offset: number): vscode.Position {
+    let line = this.lineStarts.length - 1;
+    while (line > 0 && this.lineStarts[line] > offset) {
+      line--;
+    }
+    return new vscode.Position(line, offset - this.lineStarts[line]);
+  }
+}
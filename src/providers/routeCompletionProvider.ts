@@ -0,0 +1,202 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { RouteSegmentParam } from "../constant/type";
+import { RoutesProvider } from "./routesProvider";
+import { SvelteProject } from "../models/svelteProject";
+import { RouteLinkUtils } from "../utils/routeLinkUtils";
+import { RouteMatchingUtils } from "../utils/routeMatchingUtils";
+import { RouteUtils } from "../utils/routeUtils";
+
+export const COMPLETION_TRIGGER_CHARACTERS = ["/", '"', "'", "`"];
+
+/**
+ * Completes route paths segment by segment inside `href`, `action`, `goto()`
+ * and `redirect()` strings. Groups are skipped, params become snippet
+ * placeholders.
+ */
+export class RouteCompletionProvider implements vscode.CompletionItemProvider {
+  constructor(private readonly routesProvider: RoutesProvider) {}
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const linePrefix = document
+      .lineAt(position.line)
+      .text.slice(0, position.character);
+    const typed = RouteLinkUtils.findLinkPrefix(linePrefix);
+    const project = this.routesProvider.getProjectForFile(document.uri.fsPath);
+    if (typed === null || !project) {
+      return undefined;
+    }
+
+    const segments = typed.split("/").slice(1);
+    const partial = segments.pop() ?? "";
+    const range = new vscode.Range(
+      position.translate(0, -partial.length),
+      position
+    );
+
+    // Links include `kit.paths.base`, offer it until it's typed out
+    const baseSegments = project.getBasePath().split("/").filter(Boolean);
+    const typedBase = segments.slice(0, baseSegments.length);
+    if (typedBase.some((segment, i) => segment !== baseSegments[i])) {
+      return undefined;
+    }
+    if (segments.length < baseSegments.length) {
+      const item = new vscode.CompletionItem(
+        baseSegments[segments.length],
+        vscode.CompletionItemKind.Folder
+      );
+      item.detail = "kit.paths.base";
+      item.range = range;
+      return [item];
+    }
+
+    const routesDir = project.getRoutesDir();
+    await project.getRouteIndex().ready();
+
+    let dirs = this.expand(project, [routesDir]);
+    for (const segment of segments.slice(baseSegments.length)) {
+      dirs = this.expand(project, this.descend(project, dirs, segment));
+    }
+
+    const items = new Map<string, vscode.CompletionItem>();
+    for (const dir of dirs) {
+      for (const entry of project.getRouteIndex().listSubdirs(dir)) {
+        if (RouteUtils.getSegmentType(entry) !== "group" && !items.has(entry)) {
+          items.set(entry, this.createItem(routesDir, path.join(dir, entry), range));
+        }
+      }
+    }
+    return [...items.values()];
+  }
+
+  /**
+   * Adds the folders a URL passes through without a segment of its own:
+   * groups and optional params that are left out
+   */
+  private expand(project: SvelteProject, dirs: string[]): string[] {
+    const expanded = new Set<string>();
+    const visit = (dir: string) => {
+      if (expanded.has(dir)) {
+        return;
+      }
+      expanded.add(dir);
+
+      for (const entry of project.getRouteIndex().listSubdirs(dir)) {
+        const { group, parts } = RouteUtils.parseSegment(entry);
+        const skippable =
+          group !== null ||
+          (parts.length === 1 && parts[0].type === "param" && parts[0].optional);
+        if (skippable) {
+          visit(path.join(dir, entry));
+        }
+      }
+    };
+
+    dirs.forEach(visit);
+    return [...expanded];
+  }
+
+  /**
+   * Returns the folders below `dirs` whose segment matches a typed URL segment
+   */
+  private descend(
+    project: SvelteProject,
+    dirs: string[],
+    segment: string
+  ): string[] {
+    const next: string[] = [];
+
+    for (const dir of dirs) {
+      // A rest param takes as many segments as follow
+      if (RouteUtils.getSegmentType(path.basename(dir)) === "rest") {
+        next.push(dir);
+      }
+
+      for (const entry of project.getRouteIndex().listSubdirs(dir)) {
+        if (
+          RouteUtils.getSegmentType(entry) !== "group" &&
+          this.matchesSegment(project, entry, segment)
+        ) {
+          next.push(path.join(dir, entry));
+        }
+      }
+    }
+
+    return next;
+  }
+
+  private matchesSegment(
+    project: SvelteProject,
+    entry: string,
+    segment: string
+  ): boolean {
+    const { pattern, params } = this.routesProvider.parseRouteId(
+      project,
+      `/${entry}`
+    );
+    const match = pattern.exec(`/${RouteMatchingUtils.decodePathname(segment)}`);
+    return (
+      !!match &&
+      !!RouteMatchingUtils.exec(match, params, (matcher, value) =>
+        project.getParamMatchers().match(matcher, value)
+      )
+    );
+  }
+
+  private createItem(
+    routesDir: string,
+    dir: string,
+    range: vscode.Range
+  ): vscode.CompletionItem {
+    const entry = path.basename(dir);
+    const { parts } = RouteUtils.parseSegment(entry);
+    const params = parts.filter(
+      (part): part is RouteSegmentParam => part.type === "param"
+    );
+
+    const item = new vscode.CompletionItem(
+      params.length > 0 ? entry : RouteUtils.decodeRoutePath(entry),
+      params.length > 0
+        ? vscode.CompletionItemKind.TypeParameter
+        : vscode.CompletionItemKind.Folder
+    );
+    item.range = range;
+    // Static segments first, like SvelteKit ranks them
+    item.sortText = `${params.length > 0 ? 1 : 0}${entry}`;
+
+    const routeId =
+      "/" + path.relative(routesDir, dir).split(path.sep).join("/");
+    item.detail = [
+      routeId,
+      ...params.map((param) =>
+        param.rest
+          ? `${param.name} may span several segments`
+          : param.matcher
+          ? `${param.name} must match "${param.matcher}"`
+          : param.optional
+          ? `${param.name} is optional`
+          : ""
+      ),
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+    if (params.length > 0) {
+      const snippet = new vscode.SnippetString();
+      for (const part of parts) {
+        if (part.type === "literal") {
+          snippet.appendText(part.value);
+        } else {
+          snippet.appendPlaceholder(part.name);
+        }
+      }
+      item.insertText = snippet;
+      item.filterText = entry;
+    }
+
+    return item;
+  }
+}
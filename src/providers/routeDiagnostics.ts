@@ -0,0 +1,87 @@
+import * as vscode from "vscode";
+import { RoutesProvider } from "./routesProvider";
+
+// Tree refreshes come in bursts (search, file watcher), only check once they settle
+const UPDATE_DELAY = 300;
+
+/**
+ * Reports conflicting and unreachable routes in the Problems panel, on
+ * their page and endpoint files
+ */
+export class RouteDiagnostics implements vscode.Disposable {
+  private collection =
+    vscode.languages.createDiagnosticCollection("svelteRadar.routes");
+  private updateTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly routesProvider: RoutesProvider) {
+    this.disposables.push(
+      routesProvider.onDidChangeTreeData(() => this.scheduleUpdate())
+    );
+    this.scheduleUpdate();
+  }
+
+  async update(): Promise<void> {
+    if (!vscode.workspace.workspaceFolders) {
+      return;
+    }
+
+    const diagnostics = new Map<string, vscode.Diagnostic[]>();
+    for (const project of this.routesProvider.getProjects()) {
+      await project.getRouteIndex().ready();
+
+      for (const problem of this.routesProvider.getRouteProblems(project)) {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(0, 0, 0, 0),
+          problem.message,
+          problem.kind === "conflict"
+            ? vscode.DiagnosticSeverity.Error
+            : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "Svelte Radar";
+        diagnostic.code =
+          problem.kind === "conflict" ? "route-conflict" : "unreachable-route";
+        diagnostic.relatedInformation = [
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(
+              vscode.Uri.file(problem.otherFilePath),
+              new vscode.Position(0, 0)
+            ),
+            problem.kind === "conflict"
+              ? `Conflicting route ${problem.otherRouteId}`
+              : `Route taking precedence: ${problem.otherRouteId}`
+          ),
+        ];
+
+        diagnostics.set(problem.filePath, [
+          ...(diagnostics.get(problem.filePath) ?? []),
+          diagnostic,
+        ]);
+      }
+    }
+
+    this.collection.clear();
+    for (const [filePath, fileDiagnostics] of diagnostics) {
+      this.collection.set(vscode.Uri.file(filePath), fileDiagnostics);
+    }
+  }
+
+  dispose() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.collection.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private scheduleUpdate() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.updateTimeout = setTimeout(() => {
+      this.update().catch((error) =>
+        console.error("Error checking routes:", error)
+      );
+    }, UPDATE_DELAY);
+  }
+}
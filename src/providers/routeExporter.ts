@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { RouteExportFormat, RouteExportOptions } from "../constant/type";
+import { RoutesProvider } from "./routesProvider";
+import { SvelteProject } from "../models/svelteProject";
+import { EXPORT_EXTENSIONS, RouteExportUtils } from "../utils/routeExportUtils";
+
+const FORMATS: {
+  label: string;
+  description: string;
+  format: RouteExportFormat;
+}[] = [
+  { label: "JSON", description: "Route manifest", format: "json" },
+  { label: "Markdown", description: "Table of routes", format: "markdown" },
+  { label: "CSV", description: "One row per route", format: "csv" },
+  { label: "Mermaid", description: "Hierarchy diagram", format: "mermaid" },
+  { label: "Graphviz", description: "Hierarchy diagram", format: "graphviz" },
+];
+
+const OPTIONS: { label: string; option: keyof RouteExportOptions }[] = [
+  { label: "Groups", option: "groups" },
+  { label: "API endpoints", option: "endpoints" },
+  { label: "Error pages", option: "errorPages" },
+];
+
+/**
+ * Exports the routes of the active project to a file, to share the route
+ * map or diff it in pull requests
+ */
+export class RouteExporter {
+  constructor(private readonly routesProvider: RoutesProvider) {}
+
+  /**
+   * Asks for a format, what to include and where to save, and writes the
+   * export. Returns the written file, or undefined if cancelled.
+   */
+  async export(): Promise<string | undefined> {
+    const project = this.routesProvider.getActiveProject();
+    if (!project || !fs.existsSync(project.getRoutesDir())) {
+      vscode.window.showWarningMessage("No routes directory found to export.");
+      return undefined;
+    }
+
+    const format = await vscode.window.showQuickPick(FORMATS, {
+      placeHolder: "Export routes as",
+    });
+    if (!format) {
+      return undefined;
+    }
+
+    const included = await vscode.window.showQuickPick(
+      OPTIONS.map((item) => ({ ...item, picked: true })),
+      { placeHolder: "Include", canPickMany: true }
+    );
+    if (!included) {
+      return undefined;
+    }
+
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(project.root, `routes.${EXPORT_EXTENSIONS[format.format]}`)
+      ),
+      filters: { [format.label]: [EXPORT_EXTENSIONS[format.format]] },
+    });
+    if (!uri) {
+      return undefined;
+    }
+
+    const picked = (option: keyof RouteExportOptions) =>
+      included.some((item) => item.option === option);
+    await fs.promises.writeFile(
+      uri.fsPath,
+      await this.render(project, format.format, {
+        groups: picked("groups"),
+        endpoints: picked("endpoints"),
+        errorPages: picked("errorPages"),
+      })
+    );
+    return uri.fsPath;
+  }
+
+  /**
+   * Renders the routes of a project in a format
+   */
+  async render(
+    project: SvelteProject,
+    format: RouteExportFormat,
+    options?: RouteExportOptions
+  ): Promise<string> {
+    const manifest = await this.routesProvider.getRouteManifest(project);
+    return RouteExportUtils.format(manifest, format, options);
+  }
+}
@@ -0,0 +1,396 @@
+import * as vscode from "vscode";
+import { RouteGraph } from "../constant/type";
+import { RoutesProvider } from "./routesProvider";
+import { SvelteProject } from "../models/svelteProject";
+import { NODE_WIDTH, RouteGraphUtils } from "../utils/routeGraphUtils";
+
+// Route changes come in bursts while folders are renamed, redraw once they settle
+const UPDATE_DELAY = 300;
+
+/**
+ * Webview panel drawing a project's routes as a zoomable graph, for apps
+ * too large to browse in the tree. Nodes open their route file on click
+ * and the graph is redrawn as routes change.
+ */
+export class RouteGraphPanel implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined;
+  private project: SvelteProject | undefined;
+  private graph: RouteGraph | undefined;
+  private updateTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly routesProvider: RoutesProvider) {
+    this.disposables.push(
+      routesProvider.onDidChangeTreeData(() => {
+        if (this.panel) {
+          this.scheduleUpdate();
+        }
+      })
+    );
+  }
+
+  /**
+   * Shows the graph of a project, the active one by default
+   */
+  async show(project?: SvelteProject): Promise<void> {
+    if (!project && !vscode.workspace.workspaceFolders) {
+      vscode.window.showInformationMessage(
+        "Open a folder with a SvelteKit project to see its routes."
+      );
+      return;
+    }
+
+    project ??= this.routesProvider.getActiveProject();
+    this.project = project;
+    this.graph = await this.buildGraph(project);
+    const title = `Routes: ${project.name}`;
+
+    if (this.panel) {
+      this.panel.title = title;
+      this.panel.webview.postMessage({ command: "update", graph: this.graph });
+      this.panel.reveal();
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      "svelteRadar.routeGraph",
+      title,
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    this.panel.webview.html = this.getHtml(this.panel.webview, this.graph);
+    this.panel.webview.onDidReceiveMessage((message) =>
+      this.handleMessage(message)
+    );
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+      this.project = undefined;
+      this.graph = undefined;
+    });
+  }
+
+  dispose() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.panel?.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private async buildGraph(project: SvelteProject): Promise<RouteGraph> {
+    return RouteGraphUtils.build(
+      await this.routesProvider.getRouteManifest(project),
+      project.root
+    );
+  }
+
+  private scheduleUpdate() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.updateTimeout = setTimeout(() => {
+      this.updateTimeout = undefined;
+      this.update().catch((error) =>
+        console.error("Error drawing the route graph:", error)
+      );
+    }, UPDATE_DELAY);
+  }
+
+  private async update() {
+    if (!this.panel || !this.project) {
+      return;
+    }
+    this.graph = await this.buildGraph(this.project);
+    this.panel?.webview.postMessage({ command: "update", graph: this.graph });
+  }
+
+  private async handleMessage(message: { command: string; id?: string }) {
+    if (message.command !== "open") {
+      return;
+    }
+
+    // Only open files of the graph, not whatever path the webview sends
+    const node = this.graph?.nodes.find(
+      (candidate) => candidate.id === message.id
+    );
+    if (node?.filePath) {
+      await vscode.window.showTextDocument(vscode.Uri.file(node.filePath), {
+        viewColumn: vscode.ViewColumn.Beside,
+      });
+    }
+  }
+
+  private getHtml(webview: vscode.Webview, graph: RouteGraph): string {
+    const nonce = Array.from({ length: 32 }, () =>
+      Math.floor(Math.random() * 36).toString(36)
+    ).join("");
+    // Inlined as JSON, `<` is escaped so route names can't close the script tag
+    const data = JSON.stringify(graph).replace(/</g, "\\u003c");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <style>
+    html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; }
+    body { display: flex; flex-direction: column; color: var(--vscode-foreground); font-family: var(--vscode-font-family); font-size: 12px; }
+    .toolbar { display: flex; flex-wrap: wrap; align-items: center; gap: 8px; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    .toolbar input[type=search], .toolbar select { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 6px; }
+    .toolbar label { display: flex; align-items: center; gap: 3px; cursor: pointer; }
+    .toolbar button { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); border: none; padding: 2px 8px; cursor: pointer; }
+    .swatch { width: 10px; height: 10px; border-radius: 2px; }
+    svg { flex: 1; width: 100%; cursor: grab; }
+    svg.panning { cursor: grabbing; }
+    .node { cursor: pointer; }
+    .node rect { fill: var(--vscode-editor-background); stroke-width: 1.5; }
+    .node.layout-file rect { stroke-width: 3; }
+    .node text { fill: var(--vscode-foreground); dominant-baseline: middle; pointer-events: none; }
+    .node:hover rect { fill: var(--vscode-list-hoverBackground); }
+    .node.match rect { fill: var(--vscode-editor-findMatchHighlightBackground); }
+    .dim { opacity: 0.2; }
+    .hidden { display: none; }
+    .edge { fill: none; stroke: var(--vscode-editorIndentGuide-activeBackground, #888); }
+    .edge.reset { stroke: var(--vscode-charts-red); stroke-dasharray: 4 3; }
+    .container rect { fill: var(--vscode-charts-orange); fill-opacity: 0.06; stroke: var(--vscode-charts-orange); stroke-opacity: 0.4; }
+    .container text { fill: var(--vscode-charts-orange); font-size: 10px; }
+    .static { --color: var(--vscode-charts-green); }
+    .dynamic, .rest, .matcher { --color: var(--vscode-charts-blue); }
+    .optional { --color: var(--vscode-charts-yellow); }
+    .group { --color: var(--vscode-charts-orange); }
+    .layout { --color: var(--vscode-charts-purple); }
+    .error { --color: var(--vscode-errorForeground); }
+    .node rect { stroke: var(--color); }
+    .swatch { background: var(--color); }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <input id="search" type="search" placeholder="Search routes" title="Enter jumps to the next match">
+    <span id="types"></span>
+    <select id="group" title="Show one group"><option value="">All groups</option></select>
+    <button id="fit" title="Fit to window">Fit</button>
+  </div>
+  <svg id="canvas"><g id="viewport"></g></svg>
+  <script id="graph" type="application/json">${data}</script>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const NODE_WIDTH = ${NODE_WIDTH};
+    const NODE_HEIGHT = 24;
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+    const svg = document.getElementById('canvas');
+    const viewport = document.getElementById('viewport');
+    const search = document.getElementById('search');
+    const groupSelect = document.getElementById('group');
+    const typeFilters = document.getElementById('types');
+
+    let graph = JSON.parse(document.getElementById('graph').textContent);
+    let view = { x: 20, y: 20, scale: 1 };
+    let elements = new Map();
+    const hiddenTypes = new Set();
+    let matchIndex = -1;
+
+    function create(tag, attributes, parent) {
+      const element = document.createElementNS(SVG_NS, tag);
+      for (const [name, value] of Object.entries(attributes)) {
+        element.setAttribute(name, value);
+      }
+      parent.appendChild(element);
+      return element;
+    }
+
+    function render() {
+      viewport.replaceChildren();
+      elements = new Map();
+      const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+
+      for (const container of graph.containers) {
+        const g = create('g', { class: 'container', 'data-id': container.id }, viewport);
+        create('rect', { x: container.x, y: container.y, width: container.width, height: container.height, rx: 6 }, g);
+        create('text', { x: container.x + 6, y: container.y + 9 }, g).textContent = container.label;
+      }
+
+      for (const edge of graph.edges) {
+        const from = nodes.get(edge.from);
+        const to = nodes.get(edge.to);
+        if (!from || !to) {
+          continue;
+        }
+        const d = edge.kind === 'child'
+          ? 'M' + (from.x + NODE_WIDTH) + ',' + from.y + ' C' + (from.x + NODE_WIDTH + 20) + ',' + from.y + ' ' + (to.x - 20) + ',' + to.y + ' ' + to.x + ',' + to.y
+          : 'M' + to.x + ',' + (to.y + NODE_HEIGHT / 2) + ' C' + to.x + ',' + (from.y + 40) + ' ' + (from.x - 40) + ',' + from.y + ' ' + from.x + ',' + from.y;
+        const path = create('path', { class: 'edge ' + edge.kind, d }, viewport);
+        create('title', {}, path).textContent = edge.kind === 'reset' ? edge.from + ' resets to the layout of ' + edge.to : '';
+        path.dataset.from = edge.from;
+        path.dataset.to = edge.to;
+      }
+
+      for (const node of graph.nodes) {
+        const hasLayout = node.files.some(file => file.startsWith('+layout'));
+        const g = create('g', { class: 'node ' + node.type + (hasLayout ? ' layout-file' : ''), transform: 'translate(' + node.x + ',' + (node.y - NODE_HEIGHT / 2) + ')' }, viewport);
+        create('rect', { width: NODE_WIDTH, height: NODE_HEIGHT, rx: 4 }, g);
+        create('text', { x: 8, y: NODE_HEIGHT / 2 }, g).textContent = truncate(node.label + (node.reset ? ' @' + node.reset : ''));
+        create('title', {}, g).textContent = [node.id, ...node.files].join('\\n');
+        if (node.filePath) {
+          g.addEventListener('click', () => {
+            if (!dragged) {
+              vscode.postMessage({ command: 'open', id: node.id });
+            }
+          });
+        } else {
+          g.style.cursor = 'default';
+        }
+        elements.set(node.id, g);
+      }
+
+      renderFilters();
+      applyFilters();
+      applyView();
+    }
+
+    function truncate(label) {
+      return label.length > 22 ? label.slice(0, 21) + '…' : label;
+    }
+
+    function renderFilters() {
+      const types = [...new Set(graph.nodes.map(node => node.type))].sort();
+      typeFilters.replaceChildren();
+      for (const type of types) {
+        const label = document.createElement('label');
+        label.className = type;
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = !hiddenTypes.has(type);
+        checkbox.addEventListener('change', () => {
+          checkbox.checked ? hiddenTypes.delete(type) : hiddenTypes.add(type);
+          applyFilters();
+        });
+        const swatch = document.createElement('span');
+        swatch.className = 'swatch';
+        label.append(checkbox, swatch, type);
+        typeFilters.appendChild(label);
+      }
+
+      const selected = groupSelect.value;
+      groupSelect.replaceChildren(new Option('All groups', ''));
+      for (const container of graph.containers) {
+        groupSelect.appendChild(new Option(container.id, container.id));
+      }
+      groupSelect.value = graph.containers.some(container => container.id === selected) ? selected : '';
+    }
+
+    // Hides filtered out nodes and their edges, dims the ones not matching the search
+    function applyFilters() {
+      const group = groupSelect.value;
+      const query = search.value.trim().toLowerCase();
+      const visible = new Set();
+
+      for (const node of graph.nodes) {
+        const inGroup = !group || node.id === group || node.id.startsWith(group + '/') || group.startsWith(node.id === '/' ? '/' : node.id + '/');
+        const shown = inGroup && !hiddenTypes.has(node.type);
+        const element = elements.get(node.id);
+        element.classList.toggle('hidden', !shown);
+        const matches = !!query && (node.id.toLowerCase().includes(query) || node.files.some(file => file.toLowerCase().includes(query)));
+        element.classList.toggle('match', matches);
+        element.classList.toggle('dim', !!query && !matches);
+        if (shown) {
+          visible.add(node.id);
+        }
+      }
+
+      for (const path of viewport.querySelectorAll('.edge')) {
+        path.classList.toggle('hidden', !visible.has(path.dataset.from) || !visible.has(path.dataset.to));
+        path.classList.toggle('dim', !!query);
+      }
+      for (const container of viewport.querySelectorAll('.container')) {
+        container.classList.toggle('hidden', !visible.has(container.dataset.id));
+      }
+    }
+
+    function applyView() {
+      viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.scale + ')');
+      vscode.setState({ view });
+    }
+
+    function fit() {
+      const { width, height } = svg.getBoundingClientRect();
+      const scale = Math.min(1.5, (width - 40) / (graph.width || 1), (height - 40) / (graph.height || 1));
+      view = { x: 20, y: 20 + NODE_HEIGHT / 2 * scale, scale: Math.max(scale, 0.05) };
+      applyView();
+    }
+
+    function centerOn(node) {
+      const { width, height } = svg.getBoundingClientRect();
+      view = { ...view, x: width / 2 - (node.x + NODE_WIDTH / 2) * view.scale, y: height / 2 - node.y * view.scale };
+      applyView();
+    }
+
+    svg.addEventListener('wheel', event => {
+      event.preventDefault();
+      const factor = Math.exp(-event.deltaY * 0.0015);
+      const scale = Math.min(4, Math.max(0.05, view.scale * factor));
+      const { left, top } = svg.getBoundingClientRect();
+      const x = event.clientX - left;
+      const y = event.clientY - top;
+      // Zoom around the pointer
+      view = { x: x - (x - view.x) * scale / view.scale, y: y - (y - view.y) * scale / view.scale, scale };
+      applyView();
+    }, { passive: false });
+
+    let drag = null;
+    // Releasing a pan over a node shouldn't open it
+    let dragged = false;
+    svg.addEventListener('mousedown', event => {
+      drag = { x: event.clientX - view.x, y: event.clientY - view.y, startX: event.clientX, startY: event.clientY };
+      dragged = false;
+      svg.classList.add('panning');
+    });
+    window.addEventListener('mousemove', event => {
+      if (drag) {
+        dragged = dragged || Math.abs(event.clientX - drag.startX) + Math.abs(event.clientY - drag.startY) > 3;
+        view = { ...view, x: event.clientX - drag.x, y: event.clientY - drag.y };
+        applyView();
+      }
+    });
+    window.addEventListener('mouseup', () => {
+      drag = null;
+      svg.classList.remove('panning');
+    });
+
+    search.addEventListener('input', () => {
+      matchIndex = -1;
+      applyFilters();
+    });
+    search.addEventListener('keydown', event => {
+      if (event.key !== 'Enter') {
+        return;
+      }
+      const matches = graph.nodes.filter(node => elements.get(node.id).classList.contains('match') && !elements.get(node.id).classList.contains('hidden'));
+      if (matches.length > 0) {
+        matchIndex = (matchIndex + 1) % matches.length;
+        centerOn(matches[matchIndex]);
+      }
+    });
+    groupSelect.addEventListener('change', applyFilters);
+    document.getElementById('fit').addEventListener('click', fit);
+
+    window.addEventListener('message', event => {
+      if (event.data.command === 'update') {
+        graph = event.data.graph;
+        render();
+      }
+    });
+
+    const state = vscode.getState();
+    if (state && state.view) {
+      view = state.view;
+      render();
+    } else {
+      render();
+      fit();
+    }
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { RoutesProvider } from "./routesProvider";
+import { SvelteProject } from "../models/svelteProject";
+import { RouteHelperUtils } from "../utils/routeHelperUtils";
+
+const DEFAULT_OUTPUT = "src/lib/routes.generated.ts";
+
+// Adding or renaming folders fires a burst of tree updates, only regenerate once they settle
+const UPDATE_DELAY = 500;
+
+/**
+ * Writes a typed `route()` helper module for each project, and keeps it up
+ * to date while `svelteRadar.routeHelpers.watch` is on
+ */
+export class RouteHelperGenerator implements vscode.Disposable {
+  private updateTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly routesProvider: RoutesProvider) {
+    this.disposables.push(
+      routesProvider.onDidChangeTreeData(() => {
+        if (this.isWatching()) {
+          this.scheduleUpdate();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration("svelteRadar.routeHelpers") &&
+          this.isWatching()
+        ) {
+          this.scheduleUpdate();
+        }
+      })
+    );
+  }
+
+  /**
+   * Generates the helper module of every project with a routes directory,
+   * returning the paths of the modules
+   */
+  async generate(): Promise<string[]> {
+    const outputs: string[] = [];
+    for (const project of this.routesProvider.getProjects()) {
+      if (fs.existsSync(project.getRoutesDir())) {
+        outputs.push(await this.generateProject(project));
+      }
+    }
+    return outputs;
+  }
+
+  dispose() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private async generateProject(project: SvelteProject): Promise<string> {
+    const output = path.resolve(project.root, this.getOutput());
+    const outputDir = path.dirname(output);
+
+    const routes = await Promise.all(
+      (
+        await this.routesProvider.listRoutes(project)
+      ).map(async (route) => ({
+        id: route.id,
+        trailingSlash: await this.routesProvider.getTrailingSlash(
+          project,
+          route.id
+        ),
+      }))
+    );
+
+    const matcherImports: Record<string, string> = {};
+    const matchers = project.getParamMatchers();
+    for (const name of matchers.listMatchers()) {
+      const file = matchers.getMatcherFile(name);
+      if (file) {
+        const specifier = this.toPosix(
+          path.relative(outputDir, file.slice(0, -path.extname(file).length))
+        );
+        matcherImports[name] = specifier.startsWith(".")
+          ? specifier
+          : `./${specifier}`;
+      }
+    }
+
+    const content = RouteHelperUtils.generate(routes, {
+      base: project.getBasePath(),
+      routesDir: this.toPosix(path.relative(project.root, project.getRoutesDir())),
+      matcherImports,
+    });
+
+    // Rewriting an unchanged module would needlessly wake up file watchers and dev servers
+    const current = await fs.promises
+      .readFile(output, "utf8")
+      .catch(() => null);
+    if (current !== content) {
+      await fs.promises.mkdir(outputDir, { recursive: true });
+      await fs.promises.writeFile(output, content);
+    }
+    return output;
+  }
+
+  private scheduleUpdate() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.updateTimeout = setTimeout(() => {
+      this.updateTimeout = undefined;
+      this.generate().catch((error) =>
+        console.error("Failed to generate route helpers:", error)
+      );
+    }, UPDATE_DELAY);
+  }
+
+  private getOutput(): string {
+    return (
+      vscode.workspace
+        .getConfiguration("svelteRadar")
+        .get<string>("routeHelpers.output") || DEFAULT_OUTPUT
+    );
+  }
+
+  private isWatching(): boolean {
+    return vscode.workspace
+      .getConfiguration("svelteRadar")
+      .get("routeHelpers.watch", false);
+  }
+
+  private toPosix(filePath: string): string {
+    return filePath.split(path.sep).join("/");
+  }
+}
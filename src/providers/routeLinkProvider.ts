@@ -0,0 +1,122 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { RouteLink, RouteLinkTarget } from "../constant/type";
+import { RoutesProvider } from "./routesProvider";
+import { LINK_WILDCARD, RouteLinkUtils } from "../utils/routeLinkUtils";
+
+// Documents that may link to routes
+export const LINK_DOCUMENTS: vscode.DocumentSelector = [
+  { scheme: "file", language: "svelte" },
+  { scheme: "file", language: "typescript" },
+  { scheme: "file", language: "javascript" },
+];
+
+/**
+ * Makes internal links like `href="/blog/intro"` or `goto("/settings")`
+ * Ctrl+clickable, opening the route file that serves them, and shows the
+ * matched route and its params on hover
+ */
+export class RouteLinkProvider
+  implements vscode.DocumentLinkProvider, vscode.HoverProvider
+{
+  constructor(private readonly routesProvider: RoutesProvider) {}
+
+  async provideDocumentLinks(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): Promise<vscode.DocumentLink[]> {
+    const links: vscode.DocumentLink[] = [];
+
+    for (const link of RouteLinkUtils.extractLinks(document.getText())) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+
+      const target = await this.routesProvider.resolveLink(
+        document.uri.fsPath,
+        link
+      );
+      if (target) {
+        const documentLink = new vscode.DocumentLink(
+          this.getRange(document, link),
+          vscode.Uri.file(target.filePath)
+        );
+        documentLink.tooltip = target.route
+          ? `Open route ${target.route.routeId}`
+          : `Open ${path.basename(target.filePath)}`;
+        links.push(documentLink);
+      }
+    }
+
+    return links;
+  }
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    const link = RouteLinkUtils.findLinkAt(
+      document.getText(),
+      document.offsetAt(position)
+    );
+    if (!link) {
+      return undefined;
+    }
+
+    const target = await this.routesProvider.resolveLink(
+      document.uri.fsPath,
+      link
+    );
+    if (!target) {
+      return undefined;
+    }
+
+    return new vscode.Hover(
+      this.describeTarget(document, target),
+      this.getRange(document, link)
+    );
+  }
+
+  private describeTarget(
+    document: vscode.TextDocument,
+    target: RouteLinkTarget
+  ): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    const project = this.routesProvider.getProjectForFile(document.uri.fsPath);
+    const relativePath = path
+      .relative(project?.root ?? path.dirname(target.filePath), target.filePath)
+      .replace(/\\/g, "/");
+
+    if (!target.route) {
+      markdown.appendMarkdown("**Static file**\n\n");
+      markdown.appendCodeblock(relativePath, "text");
+      return markdown;
+    }
+
+    markdown.appendMarkdown(`**Route** \`${target.route.routeId}\`\n\n`);
+    markdown.appendMarkdown(`File: \`${relativePath}\``);
+
+    const params = Object.entries(target.route.params);
+    if (params.length > 0) {
+      markdown.appendMarkdown("\n\n| Param | Value |\n| --- | --- |\n");
+      for (const [name, value] of params) {
+        // Interpolated values are only known at runtime
+        const display = value.includes(LINK_WILDCARD)
+          ? "_dynamic_"
+          : value
+          ? `\`${value}\``
+          : "_empty_";
+        markdown.appendMarkdown(`| ${name} | ${display} |\n`);
+      }
+    }
+
+    return markdown;
+  }
+
+  private getRange(document: vscode.TextDocument, link: RouteLink): vscode.Range {
+    return new vscode.Range(
+      document.positionAt(link.start),
+      document.positionAt(link.end)
+    );
+  }
+}
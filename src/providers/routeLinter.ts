@@ -0,0 +1,165 @@
+import * as vscode from "vscode";
+import { RouteLintFix, RouteLintProblem } from "../constant/type";
+import { RoutesProvider } from "./routesProvider";
+import { RouteLintUtils } from "../utils/routeLintUtils";
+
+// Tree refreshes come in bursts (search, file watcher), only lint once they settle
+const UPDATE_DELAY = 300;
+
+/**
+ * Reports misnamed and misplaced route files in the Problems panel and
+ * offers quick fixes that rename, move or create the right file
+ */
+export class RouteLinter implements vscode.CodeActionProvider, vscode.Disposable {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private collection =
+    vscode.languages.createDiagnosticCollection("svelteRadar.lint");
+  private problems = new Map<string, RouteLintProblem[]>();
+  // The route index versions of the projects when they were last linted
+  private lintedVersions: string | undefined;
+  private updateTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly routesProvider: RoutesProvider) {
+    this.disposables.push(
+      // Searching or a dev server starting refreshes the tree too, only lint when the routes changed
+      routesProvider.onDidChangeTreeData(() => {
+        if (
+          vscode.workspace.workspaceFolders &&
+          this.getVersions() !== this.lintedVersions
+        ) {
+          this.scheduleUpdate();
+        }
+      }),
+      vscode.languages.registerCodeActionsProvider({ scheme: "file" }, this, {
+        providedCodeActionKinds: RouteLinter.providedCodeActionKinds,
+      })
+    );
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Lints the routes directories of all projects and publishes the problems
+   */
+  async lint(): Promise<RouteLintProblem[]> {
+    if (!vscode.workspace.workspaceFolders) {
+      return [];
+    }
+
+    const projects = this.routesProvider.getProjects();
+    await Promise.all(projects.map((project) => project.getRouteIndex().ready()));
+
+    this.lintedVersions = this.getVersions();
+    const problems = projects.flatMap((project) =>
+      RouteLintUtils.lintRoutes(project.getRouteIndex(), project.getRoutesDir())
+    );
+
+    this.problems.clear();
+    for (const problem of problems) {
+      this.problems.set(problem.filePath, [
+        ...(this.problems.get(problem.filePath) ?? []),
+        problem,
+      ]);
+    }
+
+    this.collection.clear();
+    for (const [filePath, fileProblems] of this.problems) {
+      this.collection.set(
+        vscode.Uri.file(filePath),
+        fileProblems.map((problem) => this.createDiagnostic(problem))
+      );
+    }
+
+    return problems;
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const problems = this.problems.get(document.uri.fsPath) ?? [];
+
+    return context.diagnostics.flatMap((diagnostic) => {
+      const problem = problems.find(
+        (candidate) =>
+          candidate.code === diagnostic.code &&
+          candidate.message === diagnostic.message
+      );
+      return (problem?.fixes ?? []).map((fix, index) =>
+        this.createFix(problem!, fix, diagnostic, index === 0)
+      );
+    });
+  }
+
+  dispose() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.collection.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private createDiagnostic(problem: RouteLintProblem): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(0, 0, 0, 0),
+      problem.message,
+      problem.severity === "error"
+        ? vscode.DiagnosticSeverity.Error
+        : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = "Svelte Radar";
+    diagnostic.code = problem.code;
+    return diagnostic;
+  }
+
+  private createFix(
+    problem: RouteLintProblem,
+    fix: RouteLintFix,
+    diagnostic: vscode.Diagnostic,
+    isPreferred: boolean
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(
+      fix.title,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.isPreferred = isPreferred;
+    action.edit = new vscode.WorkspaceEdit();
+
+    if (fix.kind === "create") {
+      action.edit.createFile(vscode.Uri.file(fix.target), {
+        ignoreIfExists: true,
+      });
+    } else {
+      // Moving creates the route folder along the way
+      action.edit.renameFile(
+        vscode.Uri.file(problem.filePath),
+        vscode.Uri.file(fix.target)
+      );
+    }
+    return action;
+  }
+
+  /**
+   * Identifies the projects and the state of their route indexes
+   */
+  private getVersions(): string {
+    return this.routesProvider
+      .getProjects()
+      .map((project) => `${project.root}:${project.getRouteIndex().version}`)
+      .join("\n");
+  }
+
+  private scheduleUpdate() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.updateTimeout = setTimeout(() => {
+      this.lint().catch((error) =>
+        console.error("Error linting routes:", error)
+      );
+    }, UPDATE_DELAY);
+  }
+}
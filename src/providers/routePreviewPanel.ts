@@ -0,0 +1,196 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { RouteItem } from "../models/routeItem";
+import { RoutesProvider } from "./routesProvider";
+import { RouteFileUtils } from "../utils/routeFileUtils";
+import { RouteParamPrompt } from "../utils/routeParamPrompt";
+
+/**
+ * Webview panel next to the editor showing a route served by the dev server.
+ * While open, it follows the active editor to the route of each page file.
+ */
+export class RoutePreviewPanel implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined;
+  private url: string | undefined;
+  // Project root and route id of the route shown, so switching between files of one route doesn't navigate
+  private routeKey: string | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly routesProvider: RoutesProvider,
+    private readonly paramPrompt: RouteParamPrompt
+  ) {
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (this.panel && editor) {
+          this.followFile(editor.document.uri.fsPath);
+        }
+      })
+    );
+  }
+
+  /**
+   * Shows a route in the panel, prompting for its params first when it is dynamic
+   */
+  async show(route: Pick<RouteItem, "filePath" | "routePath">): Promise<void> {
+    const target = await this.getTarget(route);
+    if (!target) {
+      return;
+    }
+
+    const { url } = target;
+    this.routeKey = target.routeKey;
+    this.url = url;
+
+    // Webviews may run remotely, where the dev server is reached through a forwarded port
+    const frameUrl = (
+      await vscode.env.asExternalUri(vscode.Uri.parse(url))
+    ).toString(true);
+    const title = `Preview ${new URL(url).pathname}`;
+
+    if (this.panel) {
+      this.panel.title = title;
+      this.panel.webview.postMessage({ command: "navigate", url, frameUrl });
+      this.panel.reveal(undefined, true);
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      "svelteRadar.preview",
+      title,
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    this.panel.webview.html = this.getHtml(this.panel.webview, url, frameUrl);
+    this.panel.webview.onDidReceiveMessage((message) =>
+      this.handleMessage(message)
+    );
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+      this.url = undefined;
+      this.routeKey = undefined;
+    });
+  }
+
+  /**
+   * Returns the URL of a route and its key, prompting for its params first
+   * when it is dynamic. Returns undefined when cancelled.
+   */
+  async getTarget(
+    route: Pick<RouteItem, "filePath" | "routePath">
+  ): Promise<{ url: string; routeKey: string } | undefined> {
+    const url = await this.routesProvider.getRouteUrl(route, this.paramPrompt);
+    return url ? { url, routeKey: this.getRouteKey(route) } : undefined;
+  }
+
+  /**
+   * Returns the route the preview follows a file to. Only pages, page
+   * loads and endpoints have one, layouts and error pages don't.
+   */
+  getRouteForFile(
+    filePath: string
+  ): Pick<RouteItem, "filePath" | "routePath"> | undefined {
+    const kind = RouteFileUtils.classify(path.basename(filePath));
+    const routeId = this.routesProvider.getRouteIdForFile(filePath);
+    if (!kind || RouteFileUtils.isLayout(kind) || kind.fileType === "error" || !routeId) {
+      return undefined;
+    }
+    return { filePath, routePath: routeId };
+  }
+
+  /**
+   * Project root and route id, the same for every file of a route
+   */
+  getRouteKey(route: Pick<RouteItem, "filePath" | "routePath">): string {
+    const project = this.routesProvider.getProjectForFile(route.filePath);
+    const routeId = route.routePath.replace(/\\/g, "/").replace(/^\/+/, "");
+    return `${project?.root}:/${routeId}`;
+  }
+
+  dispose() {
+    this.panel?.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  /**
+   * Navigates to the route of a page, page load or endpoint file
+   */
+  private async followFile(filePath: string) {
+    const route = this.getRouteForFile(filePath);
+    if (route && this.getRouteKey(route) !== this.routeKey) {
+      await this.show(route);
+    }
+  }
+
+  private async handleMessage(message: { command: string }) {
+    if (!this.url) {
+      return;
+    }
+
+    switch (message.command) {
+      case "copy":
+        await vscode.env.clipboard.writeText(this.url);
+        vscode.window.setStatusBarMessage(`Copied ${this.url}`, 3000);
+        break;
+      case "openExternal":
+        await vscode.env.openExternal(vscode.Uri.parse(this.url));
+        break;
+    }
+  }
+
+  private getHtml(webview: vscode.Webview, url: string, frameUrl: string): string {
+    const nonce = Array.from({ length: 32 }, () =>
+      Math.floor(Math.random() * 36).toString(36)
+    ).join("");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; frame-src http: https:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <style>
+    html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; }
+    body { display: flex; flex-direction: column; }
+    .toolbar { display: flex; gap: 4px; padding: 4px; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+    .toolbar input { flex: 1; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 6px; }
+    .toolbar button { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); border: none; padding: 2px 8px; cursor: pointer; }
+    .toolbar button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    iframe { flex: 1; border: none; background: white; }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <button id="reload" title="Reload">Reload</button>
+    <input id="url" readonly value="${this.escapeHtml(url)}">
+    <button id="copy" title="Copy URL">Copy URL</button>
+    <button id="external" title="Open in Browser">Open in Browser</button>
+  </div>
+  <iframe id="frame" src="${this.escapeHtml(frameUrl)}"></iframe>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const frame = document.getElementById('frame');
+    const url = document.getElementById('url');
+
+    document.getElementById('reload').addEventListener('click', () => { frame.src = frame.src; });
+    document.getElementById('copy').addEventListener('click', () => vscode.postMessage({ command: 'copy' }));
+    document.getElementById('external').addEventListener('click', () => vscode.postMessage({ command: 'openExternal' }));
+
+    window.addEventListener('message', event => {
+      if (event.data.command === 'navigate') {
+        url.value = event.data.url;
+        frame.src = event.data.frameUrl;
+      }
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/"/g, "&quot;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+}
@@ -0,0 +1,224 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { FileType, HttpMethod, RouteScaffoldFile } from "../constant/type";
+import { RoutesProvider } from "./routesProvider";
+import { RouteItem } from "../models/routeItem";
+import { SvelteProject } from "../models/svelteProject";
+import { ProjectUtils } from "../utils/projectUtils";
+import { RouteFileUtils } from "../utils/routeFileUtils";
+import { RouteScaffoldUtils } from "../utils/routeScaffoldUtils";
+
+const FILES: {
+  file: RouteScaffoldFile;
+  description: string;
+  picked: boolean;
+}[] = [
+  { file: "page", description: "Page component", picked: true },
+  {
+    file: "pageServer",
+    description: "Load function and form actions",
+    picked: false,
+  },
+  {
+    file: "layout",
+    description: "Layout of the route and the routes below",
+    picked: false,
+  },
+  { file: "error", description: "Error page", picked: false },
+  { file: "server", description: "API endpoint", picked: false },
+];
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+const DEFAULT_TEMPLATES_DIR = ".vscode/svelte-radar/templates";
+
+/**
+ * Creates a route from a URL pattern like `/blog/:slug`: its directory, in
+ * SvelteKit's bracket syntax, and the starter `+` files picked. Files are
+ * written from the project's templates when it has them.
+ */
+export class RouteScaffolder {
+  constructor(private readonly routesProvider: RoutesProvider) {}
+
+  /**
+   * Walks through the wizard and opens the new page. Routes are created
+   * below the given tree item, or at the root of the active project.
+   * Returns the created files, or undefined if cancelled.
+   */
+  async newRoute(parent?: RouteItem): Promise<string[] | undefined> {
+    const project = parent
+      ? this.getProject(parent)
+      : this.routesProvider.getActiveProject();
+    if (!project) {
+      return undefined;
+    }
+
+    const parentId =
+      !parent || parent.routeType === "project"
+        ? "/"
+        : "/" + parent.routePath.split(/[\\/]/).filter(Boolean).join("/");
+    const matchers = project.getParamMatchers().listMatchers();
+    const pattern = await vscode.window.showInputBox({
+      title: parentId === "/" ? "New Route" : `New Route in ${parentId}`,
+      prompt: "URL pattern, e.g. /blog/:slug, /items/:id=integer, /docs/*path or /:lang?",
+      placeHolder: parentId === "/" ? "/blog/:slug" : "/:slug",
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        RouteScaffoldUtils.validate(parentId, value, matchers),
+    });
+    if (pattern === undefined) {
+      return undefined;
+    }
+
+    const routeId = RouteScaffoldUtils.toRouteId(parentId, pattern);
+    const typescript = project.usesTypeScript();
+    const templates = this.readTemplates(project);
+    const files = await vscode.window.showQuickPick(
+      FILES.map((item) => {
+        const label = RouteScaffoldUtils.getFileName(item.file, typescript);
+        return {
+          ...item,
+          label,
+          description:
+            label in templates
+              ? `${item.description} (project template)`
+              : item.description,
+        };
+      }),
+      { placeHolder: `Files of ${routeId}`, canPickMany: true }
+    );
+    if (!files || files.length === 0) {
+      return undefined;
+    }
+
+    let methods: HttpMethod[] = [];
+    if (files.some((item) => item.file === "server")) {
+      const picked = await vscode.window.showQuickPick(
+        METHODS.map((method) => ({ label: method, picked: method === "GET" })),
+        { placeHolder: "HTTP methods of +server", canPickMany: true }
+      );
+      if (!picked || picked.length === 0) {
+        return undefined;
+      }
+      methods = picked.map((item) => item.label as HttpMethod);
+    }
+
+    const rendered = RouteScaffoldUtils.render(
+      files.map((item) => item.file),
+      {
+        routeId,
+        typescript,
+        runes: (project.getSvelteVersion() ?? 5) >= 5,
+        methods,
+      },
+      templates
+    );
+
+    const dir = path.join(project.getRoutesDir(), ...routeId.split("/"));
+    const relative = path.relative(project.getRoutesDir(), dir);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      vscode.window.showErrorMessage(
+        `${routeId} is outside the routes directory.`
+      );
+      return undefined;
+    }
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    // Existing files are kept, also when only their extension differs
+    const existing = this.getExistingFileTypes(dir);
+    const created: string[] = [];
+    const skipped: string[] = [];
+    for (const { fileName, content } of rendered) {
+      const kind = RouteFileUtils.classify(fileName);
+      if (kind && existing.has(kind.fileType)) {
+        skipped.push(fileName);
+        continue;
+      }
+      const filePath = path.join(dir, fileName);
+      await fs.promises.writeFile(filePath, content);
+      created.push(filePath);
+    }
+
+    if (skipped.length > 0) {
+      vscode.window.showWarningMessage(
+        `${routeId} already has ${skipped.join(", ")}, left as is.`
+      );
+    }
+    const open =
+      created.find((filePath) => path.basename(filePath) === "+page.svelte") ??
+      created[0];
+    if (open) {
+      await vscode.window.showTextDocument(
+        await vscode.workspace.openTextDocument(open)
+      );
+    }
+    return created;
+  }
+
+  /**
+   * The project of a tree item, found through the first file below it
+   */
+  private getProject(item: RouteItem): SvelteProject | undefined {
+    if (item.routeType === "project") {
+      return this.routesProvider
+        .getProjects()
+        .find((project) => project.name === item.label);
+    }
+
+    const filePath = this.findFile(item);
+    return filePath
+      ? this.routesProvider.getProjectForFile(filePath)
+      : this.routesProvider.getActiveProject();
+  }
+
+  private findFile(item: RouteItem): string | undefined {
+    if (item.filePath) {
+      return item.filePath;
+    }
+    for (const child of item.children) {
+      const filePath = this.findFile(child);
+      if (filePath) {
+        return filePath;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reads the templates of the folder set by `templates` in
+   * svelte-radar.json, by route file name, e.g. `+page.server.ts`
+   */
+  private readTemplates(project: SvelteProject): Record<string, string> {
+    const folder =
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(project.root))?.uri
+        .fsPath ?? project.root;
+    const dir = path.resolve(
+      folder,
+      ProjectUtils.readWorkspaceConfig(folder).templates ||
+        DEFAULT_TEMPLATES_DIR
+    );
+    if (!fs.existsSync(dir)) {
+      return {};
+    }
+
+    return Object.fromEntries(
+      fs
+        .readdirSync(dir)
+        .filter((fileName) => RouteFileUtils.isRouteFile(fileName))
+        .map((fileName) => [
+          fileName,
+          fs.readFileSync(path.join(dir, fileName), "utf8"),
+        ])
+    );
+  }
+
+  private getExistingFileTypes(dir: string): Set<FileType> {
+    const fileTypes = fs
+      .readdirSync(dir)
+      .map((fileName) => RouteFileUtils.classify(fileName)?.fileType);
+    return new Set(
+      fileTypes.filter((fileType): fileType is FileType => !!fileType)
+    );
+  }
+}
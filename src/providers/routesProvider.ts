@@ -4,28 +4,53 @@ import * as fs from "fs";
 import { RouteItem } from "../models/routeItem";
 import { RouteUtils } from "../utils/routeUtils";
 import {
-  ResetInfo,
+  LayoutInfo,
+  ListedRoute,
+  ParsedRoute,
   RouteFileInfo,
+  RouteFileKind,
+  RouteLink,
+  RouteLinkTarget,
+  RouteManifest,
+  RouteManifestEntry,
   RouteMatch,
+  RouteProblem,
   RouteType,
-  SegmentMatch,
+  SvelteKitFiles,
+  TrailingSlash,
 } from "../constant/type";
+import { SvelteProject } from "../models/svelteProject";
 import { WorkspaceConfig } from "../constant/workspace-config.type";
+import { ParamMatcherRegistry } from "../utils/paramMatcherRegistry";
+import { ProjectUtils } from "../utils/projectUtils";
+import { RouteMatchingUtils } from "../utils/routeMatchingUtils";
+import { LayoutChainUtils } from "../utils/layoutChainUtils";
+import { RouteFileUtils } from "../utils/routeFileUtils";
+import { RouteIndex } from "../utils/routeIndex";
+import { RouteParamPrompt } from "../utils/routeParamPrompt";
+import { PageOptionsUtils } from "../utils/pageOptionsUtils";
+import { DevServerDetector } from "../utils/devServerDetector";
+import { RouteConflictUtils } from "../utils/routeConflictUtils";
+import { LINK_WILDCARD } from "../utils/routeLinkUtils";
 
 /**
  * Provider class for managing SvelteKit routes in VS Code
  */
-export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
+export class RoutesProvider
+  implements vscode.TreeDataProvider<RouteItem>, vscode.Disposable
+{
   private _onDidChangeTreeData = new vscode.EventEmitter<
     RouteItem | undefined
   >();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
-  private config: WorkspaceConfig;
-  private port: number;
+  private projects: SvelteProject[] | undefined;
   private flatView: boolean;
   private searchPattern: string = "";
   private testRoot?: string;
-  private timeout: NodeJS.Timeout | undefined;
+  private rootItems: RouteItem[] | undefined;
+  private parents = new Map<string, RouteItem | undefined>();
+  private devServerDetector = new DevServerDetector();
+  private disposables: vscode.Disposable[] = [];
 
   constructor(testRoot?: string) {
     this.testRoot = testRoot;
@@ -33,58 +58,60 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
       vscode.workspace
         .getConfiguration("svelteRadar")
         .get("viewType", "flat") === "flat";
-    this.config = this.readWorkspaceConfig();
-    this.port = this.getPort();
 
     // Watch for config file changes
     const watcher = vscode.workspace.createFileSystemWatcher(
       "**/.vscode/svelte-radar.json"
     );
-    watcher.onDidChange(() => this.refresh());
-    watcher.onDidCreate(() => this.refresh());
-    watcher.onDidDelete(() => this.refresh());
+    watcher.onDidChange(() => this.reloadConfig());
+    watcher.onDidCreate(() => this.reloadConfig());
+    watcher.onDidDelete(() => this.reloadConfig());
+
+    // svelte.config can move the routes, params and hooks directories
+    const svelteConfigWatcher = vscode.workspace.createFileSystemWatcher(
+      "**/svelte.config.{js,mjs,cjs,ts}"
+    );
+    svelteConfigWatcher.onDidChange(() => this.reloadConfig());
+    svelteConfigWatcher.onDidCreate(() => this.reloadConfig());
+    svelteConfigWatcher.onDidDelete(() => this.reloadConfig());
+
+    this.disposables.push(
+      watcher,
+      svelteConfigWatcher,
+      this.devServerDetector,
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reloadConfig()),
+      // `vite dev` printed its URL in a terminal
+      this.devServerDetector.onDidChange(() => this.detectDevServers()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("svelteRadar.origin")) {
+          this.reloadConfig();
+        }
+      })
+    );
 
     vscode.commands.executeCommand(
       "setContext",
       "svelteRadar:hasSearchTerm",
       false
     );
-
-    vscode.window.onDidChangeActiveTextEditor(() => {
-      if(this.searchPattern) {
-        return; // Don't refresh if we're in search mode
-      }
-      if (this.timeout) {
-        clearTimeout(this.timeout);
-      }
-      this.timeout = setTimeout(() => {
-        this.refresh();
-      }, 500); // Delay for 500 milliseconds
-    });
   }
 
-  private readWorkspaceConfig(): WorkspaceConfig {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-      return {};
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    const configPath = path.join(workspaceRoot, ".vscode", "svelte-radar.json");
-
-    let config: WorkspaceConfig = {};
+  dispose() {
+    this.projects?.forEach((project) => project.dispose());
+    this.projects = undefined;
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
 
-    if (fs.existsSync(configPath)) {
-      try {
-        config = JSON.parse(fs.readFileSync(configPath, "utf8"));
-      } catch (error) {
-        console.error("Error reading workspace config:", error);
-      }
-    }
-    return config;
+  private reloadConfig(): void {
+    this.projects?.forEach((project) => project.dispose());
+    this.projects = undefined;
+    this.refresh();
+    this.detectDevServers();
   }
 
   refresh(): void {
+    this.rootItems = undefined;
     this._onDidChangeTreeData.fire(undefined);
   }
 
@@ -92,8 +119,33 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
     return element;
   }
 
+  getParent(element: RouteItem): RouteItem | undefined {
+    return element.id ? this.parents.get(element.id) : undefined;
+  }
+
+  /**
+   * Returns the item of a route file in the tree as currently shown, so it can be revealed
+   */
+  async getItemForFile(filePath: string): Promise<RouteItem | undefined> {
+    const find = (items: RouteItem[]): RouteItem | undefined => {
+      for (const item of items) {
+        // Directory nodes carry the path of their first file, only match the file itself
+        if (item.children.length === 0 && item.filePath === filePath) {
+          return item;
+        }
+        const found = find(item.children);
+        if (found) {
+          return found;
+        }
+      }
+      return undefined;
+    };
+
+    return find(this.rootItems ?? (await this.getChildren()));
+  }
+
   getPort(): number {
-    return this.config.port || 5173;
+    return this.getActiveProject().getPort();
   }
 
   toggleViewType(): void {
@@ -104,10 +156,26 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
     this.refresh();
   }
 
-  // Helper method to get routes directory
-  getRoutesDir(): string {
+  /**
+   * Returns the SvelteKit projects of all workspace folders
+   */
+  getProjects(): SvelteProject[] {
+    if (!this.projects) {
+      this.projects = this.resolveProjects();
+
+      // The route indexes watch their routes directory and the registries their
+      // params directory, the tree and everything following it come along
+      for (const project of this.projects) {
+        project.getRouteIndex().onDidChange(() => this.refresh());
+        project.getParamMatchers().onDidChange(() => this.refresh());
+      }
+    }
+    return this.projects;
+  }
+
+  private resolveProjects(): SvelteProject[] {
     if (this.testRoot) {
-      return path.join(this.testRoot, "src", "routes");
+      return [ProjectUtils.getDefaultProject(this.testRoot, {})];
     }
 
     const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -115,67 +183,284 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
       throw new Error("No workspace folder found");
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    return path.join(
-      workspaceRoot,
-      this.config.projectRoot || "",
-      "src/routes"
+    const projects = workspaceFolders.flatMap((folder) =>
+      ProjectUtils.resolveProjects(
+        folder.uri.fsPath,
+        this.readWorkspaceConfig(folder)
+      )
     );
+    if (projects.length > 0) {
+      return projects;
+    }
+
+    // No SvelteKit app found, fall back to the first folder so the missing routes get reported
+    return [
+      ProjectUtils.getDefaultProject(
+        workspaceFolders[0].uri.fsPath,
+        this.readWorkspaceConfig(workspaceFolders[0])
+      ),
+    ];
+  }
+
+  /**
+   * Reads `.vscode/svelte-radar.json`, which overrides the `svelteRadar.origin` setting
+   */
+  private readWorkspaceConfig(folder: vscode.WorkspaceFolder): WorkspaceConfig {
+    const origin = vscode.workspace
+      .getConfiguration("svelteRadar", folder.uri)
+      .get<string>("origin");
+    return {
+      ...(origin ? { origin } : {}),
+      ...ProjectUtils.readWorkspaceConfig(folder.uri.fsPath),
+    };
+  }
+
+  /**
+   * Looks for the running dev server of every project without a configured
+   * origin. A server is only assigned to one project.
+   */
+  async detectDevServers(): Promise<void> {
+    if (!vscode.workspace.workspaceFolders && !this.testRoot) {
+      return;
+    }
+
+    const claimed = new Set<number>();
+    let changed = false;
+
+    for (const project of this.getProjects()) {
+      if (project.hasConfiguredOrigin()) {
+        continue;
+      }
+
+      const devServer = await this.devServerDetector.detect(project, claimed);
+      if (devServer) {
+        claimed.add(devServer.port);
+      }
+      if (devServer?.origin !== project.devServer?.origin) {
+        project.devServer = devServer;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Returns the innermost project containing a file
+   */
+  getProjectForFile(filePath: string): SvelteProject | undefined {
+    return this.getProjects()
+      .filter((project) => project.contains(filePath))
+      .sort((a, b) => b.root.length - a.root.length)[0];
+  }
+
+  /**
+   * The project of the active editor, or the first project
+   */
+  getActiveProject(): SvelteProject {
+    const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+    return (
+      (activeFile && this.getProjectForFile(activeFile)) ||
+      this.getProjects()[0]
+    );
+  }
+
+  // Helper method to get the root of the SvelteKit project
+  getProjectRoot(): string {
+    return this.getActiveProject().root;
+  }
+
+  /**
+   * Returns the project's file locations, as configured by `kit.files` in svelte.config
+   */
+  getKitFiles(): SvelteKitFiles {
+    return this.getActiveProject().getKitFiles();
+  }
+
+  // Helper method to get routes directory
+  getRoutesDir(): string {
+    return this.getKitFiles().routes;
+  }
+
+  getParamsDir(): string {
+    return this.getKitFiles().params;
+  }
+
+  getHooksFiles(): SvelteKitFiles["hooks"] {
+    return this.getKitFiles().hooks;
+  }
+
+  /**
+   * Returns the registry of param matchers defined in the params directory
+   */
+  getParamMatchers(): ParamMatcherRegistry {
+    return this.getActiveProject().getParamMatchers();
   }
 
   async getChildren(element?: RouteItem): Promise<RouteItem[]> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
+    if (!workspaceFolders && !this.testRoot) {
       return [];
     }
 
-    const routesDir = this.getRoutesDir();
-    if (!fs.existsSync(routesDir)) {
-      vscode.window.showErrorMessage("SvelteKit routes directory not found.");
-      return [];
+    // Routes are built up front, so nested nodes already hold their children
+    if (element) {
+      return element.children || [];
     }
 
-    // If there's a search pattern, apply it only at the root level
-    if (this.searchPattern) {
-      if (!element) {
-        // Only filter at root level
-        if (this.flatView) {
-          const routes = this.buildRoutesTree(routesDir, "");
-          const flatRoutes = this.flattenRoutes(routes);
-          return this.filterRoutes(flatRoutes);
-        } else {
-          const routes = this.buildRoutesTree(routesDir, "");
-          const filtered = this.filterRoutes(routes);
-          return filtered;
-        }
-      } else {
-        // For child nodes during search, just return children without filtering
-        return element.children || [];
+    const projects = this.getProjects();
+    await Promise.all(
+      projects.map((project) => project.getRouteIndex().ready())
+    );
+
+    if (projects.length === 1) {
+      if (!this.hasRoutesDir(projects[0])) {
+        vscode.window.showErrorMessage("SvelteKit routes directory not found.");
+        return [];
       }
+      return this.registerItems(this.getProjectRoutes(projects[0]));
     }
 
-    // Normal behavior without search
-    if (this.flatView && !element) {
-      const routes = this.buildRoutesTree(routesDir, "");
-      return this.flattenRoutes(routes);
+    // With several apps, each one gets a top-level node
+    const projectItems = projects
+      .filter((project) => this.hasRoutesDir(project))
+      .map((project) => ({ project, routes: this.getProjectRoutes(project) }))
+      .filter(({ routes }) => !this.searchPattern || routes.length > 0)
+      .map(
+        ({ project, routes }) =>
+          new RouteItem(
+            project.name,
+            "",
+            "",
+            routes,
+            project.getPort(),
+            "project",
+            true
+          )
+      );
+    return this.registerItems(projectItems);
+  }
+
+  /**
+   * Gives the items of a freshly built tree ids that stay the same across
+   * rebuilds, and records their parents for `getParent`
+   */
+  private registerItems(items: RouteItem[], parent?: RouteItem): RouteItem[] {
+    if (!parent) {
+      this.rootItems = items;
+      this.parents.clear();
     }
 
-    if (!element) {
-      return this.buildRoutesTree(routesDir, "");
+    items.forEach((item, position) => {
+      item.id = this.getItemId(item, position, parent);
+      this.parents.set(item.id, parent);
+      this.registerItems(item.children, item);
+    });
+    return items;
+  }
+
+  private getItemId(
+    item: RouteItem,
+    position: number,
+    parent?: RouteItem
+  ): string {
+    const scope = parent?.id ?? "";
+    const label = typeof item.label === "string" ? item.label : item.label.label;
+
+    switch (item.routeType) {
+      case "project":
+        return `project:${position}:${label}`;
+      case "divider":
+        return `${scope}/divider:${label}`;
+      case "spacer":
+        return `${scope}/spacer:${position}`;
+      default:
+        return item.children.length > 0
+          ? `${scope}/dir:${item.routePath}`
+          : `${scope}/file:${item.filePath}`;
+    }
+  }
+
+  private hasRoutesDir(project: SvelteProject): boolean {
+    return !!project.getRouteIndex().getDir(project.getRoutesDir());
+  }
+
+  private getProjectRoutes(project: SvelteProject): RouteItem[] {
+    const routes = this.buildRoutesTree(project, project.getRoutesDir(), "");
+    const viewRoutes = this.flatView
+      ? this.flattenRoutes(project, routes)
+      : routes;
+
+    // If there's a search pattern, apply it only at the root level
+    const items = this.searchPattern
+      ? this.filterRoutes(project, viewRoutes)
+      : viewRoutes;
+
+    this.markProblems(items, this.getRouteProblems(project));
+    return items;
+  }
+
+  /**
+   * Finds routes SvelteKit would refuse to build because they conflict, and
+   * routes that can never be rendered. Every page and endpoint file of such
+   * a route gets the problem. The route index must be ready.
+   *
+   * Problems are kept on the project until its routes or param matchers
+   * change, the tree and the Problems panel share them.
+   */
+  getRouteProblems(project: SvelteProject): RouteProblem[] {
+    return project.getDerived("routeProblems", () => {
+      const index = project.getRouteIndex();
+      const routes = this.collectRoutes(index, project.getRoutesDir(), "/");
+      const problems = RouteConflictUtils.findProblems(
+        routes,
+        (matcher, value) => project.getParamMatchers().match(matcher, value)
+      );
+
+      return problems.flatMap((problem) => {
+        const dir = path.dirname(problem.filePath);
+        return index
+          .listFiles(dir)
+          .filter((file) => {
+            const kind = RouteFileUtils.classify(file);
+            return kind && RouteFileUtils.isLeaf(kind);
+          })
+          .map((file) => ({ ...problem, filePath: path.join(dir, file) }));
+      });
+    });
+  }
+
+  private markProblems(items: RouteItem[], problems: RouteProblem[]) {
+    if (problems.length === 0) {
+      return;
     }
 
-    return element.children || [];
+    for (const item of items) {
+      const messages = problems
+        .filter((problem) => item.filePath && problem.filePath === item.filePath)
+        .map((problem) => problem.message);
+      if (messages.length > 0) {
+        item.markProblems(messages);
+      }
+      this.markProblems(item.children, problems);
+    }
   }
 
-  private buildRoutesTree(dir: string, basePath: string): RouteItem[] {
-    const entries = fs.readdirSync(dir).filter((file) => !file.startsWith("."));
+  private buildRoutesTree(
+    project: SvelteProject,
+    dir: string,
+    basePath: string
+  ): RouteItem[] {
+    const entries = [...project.getRouteIndex().listSubdirs(dir)];
     const routes: RouteItem[] = [];
 
     entries.sort((a, b) => this.compareRoutes(a, b));
 
     // Process root level files
     if (!basePath) {
-      const fileInfos = this.findPageInfo(dir);
+      const fileInfos = this.findPageInfo(project, dir);
       for (const fileInfo of fileInfos) {
         routes.push(
           new RouteItem(
@@ -183,11 +468,12 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
             "/",
             fileInfo.filePath,
             [],
-            this.port,
+            project.getPort(),
             "static",
             !this.flatView, // Use hierarchical view flag
             fileInfo.resetInfo,
-            fileInfo.fileType
+            fileInfo.fileType,
+            fileInfo.layoutChain
           )
         );
       }
@@ -196,69 +482,68 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
     // Process directories
     for (const entry of entries) {
       const fullPath = path.join(dir, entry);
-      const stat = fs.statSync(fullPath);
-
-      if (stat.isDirectory()) {
-        const routePath = path.join(basePath, entry);
-        const routeType = this.determineRouteType(entry);
-        const dirFileInfos = this.findPageInfo(fullPath);
-        const children = this.buildRoutesTree(fullPath, routePath);
-
-        if (this.flatView) {
-          // Flat view logic remains unchanged
-          for (const fileInfo of dirFileInfos) {
-            routes.push(
-              new RouteItem(
-                routePath,
-                routePath,
-                fileInfo.filePath,
-                [],
-                this.port,
-                routeType,
-                false,
-                fileInfo.resetInfo,
-                fileInfo.fileType
-              )
-            );
-          }
-          routes.push(...children);
-        } else {
-          // Enhanced hierarchical view logic
-          const routeFiles: RouteItem[] = [];
-
-          // Add all directory files as direct children
-          for (const fileInfo of dirFileInfos) {
-            routeFiles.push(
-              new RouteItem(
-                path.basename(fileInfo.filePath),
-                routePath,
-                fileInfo.filePath,
-                [],
-                this.port,
-                routeType,
-                true,
-                fileInfo.resetInfo,
-                fileInfo.fileType
-              )
-            );
-          }
+      const routePath = path.join(basePath, entry);
+      const routeType = this.determineRouteType(entry);
+      const dirFileInfos = this.findPageInfo(project, fullPath);
+      const children = this.buildRoutesTree(project, fullPath, routePath);
+
+      if (this.flatView) {
+        // Flat view logic remains unchanged
+        for (const fileInfo of dirFileInfos) {
+          routes.push(
+            new RouteItem(
+              routePath,
+              routePath,
+              fileInfo.filePath,
+              [],
+              project.getPort(),
+              routeType,
+              false,
+              fileInfo.resetInfo,
+              fileInfo.fileType,
+              fileInfo.layoutChain
+            )
+          );
+        }
+        routes.push(...children);
+      } else {
+        // Enhanced hierarchical view logic
+        const routeFiles: RouteItem[] = [];
+
+        // Add all directory files as direct children
+        for (const fileInfo of dirFileInfos) {
+          routeFiles.push(
+            new RouteItem(
+              path.basename(fileInfo.filePath),
+              routePath,
+              fileInfo.filePath,
+              [],
+              project.getPort(),
+              routeType,
+              true,
+              fileInfo.resetInfo,
+              fileInfo.fileType,
+              fileInfo.layoutChain
+            )
+          );
+        }
 
-          // Create directory node with all children
-          if (routeFiles.length > 0 || children.length > 0) {
-            routes.push(
-              new RouteItem(
-                entry,
-                routePath,
-                dirFileInfos[0]?.filePath || "",
-                [...routeFiles, ...children],
-                this.port,
-                routeType,
-                true,
-                dirFileInfos[0]?.resetInfo || null,
-                dirFileInfos[0]?.fileType || "page"
-              )
-            );
-          }
+        // Create directory node with all children
+        if (routeFiles.length > 0 || children.length > 0) {
+          routes.push(
+            new RouteItem(
+              entry,
+              routePath,
+              dirFileInfos[0]?.filePath || "",
+              [...routeFiles, ...children],
+              project.getPort(),
+              routeType,
+              true,
+              dirFileInfos[0]?.resetInfo || null,
+              dirFileInfos[0]?.fileType || "page",
+              dirFileInfos[0]?.layoutChain || []
+            )
+          );
         }
       }
     }
@@ -267,113 +552,46 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
   }
 
   private determineRouteType(entry: string): RouteType {
-    if (entry.startsWith("(") && entry.endsWith(")")) {
-      return "group";
-    }
-    if (entry.startsWith("[...") && entry.endsWith("]")) {
-      return "rest";
-    }
-    if (entry.startsWith("[[") && entry.endsWith("]]")) {
-      return "optional";
-    }
-    if (entry.startsWith("[") && entry.endsWith("]")) {
-      return "dynamic";
-    }
-    return "static";
+    return RouteUtils.getSegmentType(entry);
   }
 
-  private findPageInfo(dir: string): RouteFileInfo[] {
-    const files = fs.readdirSync(dir);
+  private findPageInfo(project: SvelteProject, dir: string): RouteFileInfo[] {
+    const routesDir = project.getRoutesDir();
+    const index = project.getRouteIndex();
     const fileInfos: RouteFileInfo[] = [];
 
     // Check each file in the directory
-    for (const file of files) {
+    for (const file of index.listFiles(dir)) {
       // Skip non-route files
-      if (!file.startsWith("+")) {
+      const kind = RouteFileUtils.classify(file);
+      if (!kind) {
         continue;
       }
 
-      // Check for reset pages first
-      if (file.includes("+page@")) {
-        const resetInfo = this.parseResetInfo(file);
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "page",
-          resetInfo,
-        });
-        continue;
-      }
-
-      // Determine file type
-      if (file.startsWith("+page.svelte")) {
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "page",
-          resetInfo: null,
-        });
-      } else if (file.startsWith("+page.ts") || file.startsWith("+page.js")) {
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "pageClient",
-          resetInfo: null,
-        });
-      } else if (file.startsWith("+page.server.ts") || file.startsWith("+page.server.js")) {
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "pageServer",
-          resetInfo: null,
-        });
-      } else if (file.startsWith("+server.ts") || file.startsWith("+server.js")) {
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "server",
-          resetInfo: null,
-        });
-      } else if (file.startsWith("+layout.svelte")) {
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "layout",
-          resetInfo: null,
-        });
-      } else if (file.startsWith("+layout.ts") || file.startsWith("+layout.js")) {
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "layoutClient",
-          resetInfo: null,
-        });
-      } else if (file.startsWith("+layout.server.ts") || file.startsWith("+layout.server.js")) {
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "layoutServer",
-          resetInfo: null,
-        });
-      } else if (file.startsWith("+error.svelte")) {
-        fileInfos.push({
-          filePath: path.join(dir, file),
-          fileType: "error",
-          resetInfo: null,
-        });
-      }
+      const filePath = path.join(dir, file);
+      fileInfos.push({
+        filePath,
+        fileType: kind.fileType,
+        // Both +page@x and +layout@x reset the layout hierarchy
+        resetInfo:
+          kind.resetTarget !== null
+            ? LayoutChainUtils.parseResetInfo(routesDir, filePath)
+            : null,
+        layoutChain: LayoutChainUtils.resolveLayoutChain(
+          routesDir,
+          filePath,
+          (layoutDir) => index.listFiles(layoutDir)
+        ),
+      });
     }
 
     return fileInfos;
   }
 
-  private parseResetInfo(fileName: string): ResetInfo | null {
-    const match = fileName.match(/\+page@(.*)\.svelte$/);
-    if (!match) {
-      return null;
-    }
-
-    const resetTarget = match[1] || "root";
-    return {
-      resetTarget,
-      displayName: resetTarget || "root",
-      layoutLevel: 0, // This will be calculated based on path depth
-    };
-  }
-
-  private flattenRoutes(routes: RouteItem[]): RouteItem[] {
+  private flattenRoutes(
+    project: SvelteProject,
+    routes: RouteItem[]
+  ): RouteItem[] {
     const routeGroups = new Map<string, RouteItem[]>();
     let lastSubDirectory = "";
 
@@ -392,7 +610,7 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
       if (subDir && subDir !== lastSubDirectory && lastSubDirectory !== "") {
         routeGroups
           .get(topLevel)
-          ?.push(new RouteItem("", "", "", [], this.port, "spacer"));
+          ?.push(new RouteItem("", "", "", [], project.getPort(), "spacer"));
       }
 
       if (subDir) {
@@ -408,10 +626,12 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
             item.routePath,
             item.filePath,
             [],
-            this.port,
+            project.getPort(),
             item.routeType,
             false,
-            item.resetInfo
+            item.resetInfo,
+            item.fileType,
+            item.layoutChain
           )
         );
 
@@ -429,7 +649,7 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
 
     sortedGroups.forEach((section) => {
       // Add section divider
-      flatList.push(new RouteItem(section, "", "", [], this.port, "divider"));
+      flatList.push(new RouteItem(section, "", "", [], project.getPort(), "divider"));
 
       // Add routes for this section
       flatList.push(...(routeGroups.get(section) || []));
@@ -447,23 +667,17 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
     const getRoutePriority = (route: string): number => {
       const segment = route.split("/").pop() || "";
 
-      // Check if it's a special parameter first (rest/optional)
-      const isSpecial = segment.startsWith("[...") || segment.startsWith("[[");
-      if (isSpecial) {
-        if (segment.startsWith("[...")) {
-          return 0;
-        } // rest parameters (lowest)
-        if (segment.startsWith("[[")) {
-          return 1;
-        } // optional parameters
+      switch (RouteUtils.getSegmentType(segment)) {
+        case "rest":
+          return 0; // rest parameters (lowest)
+        case "optional":
+          return 1; // optional parameters
+        case "dynamic":
+        case "matcher":
+          return 2; // dynamic parameters, including mixed segments like post-[slug]
+        default:
+          return 3; // static routes (highest)
       }
-
-      // Then handle static vs dynamic
-      const isDynamic = segment.includes("[");
-      if (isDynamic) {
-        return 2;
-      } // dynamic parameters
-      return 3; // static routes (highest)
     };
 
     // Compare route types first
@@ -557,11 +771,8 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
   };
 
   private normalizeSegment(segment: string): string {
-    return segment
-      .replace(/^\[\.\.\.(\w+)\]$/, "*$1") // [...param] -> *param
-      .replace(/^\[\[(\w+)\]\]$/, ":$1?") // [[param]] -> :param?
-      .replace(/^\[(\w+)=\w+\]$/, ":$1") // [param=matcher] -> :param
-      .replace(/^\[(\w+)\]$/, ":$1"); // [param] -> :param
+    // [...param] -> *param, [[param]] -> :param?, [param=matcher] -> :param, post-[slug] -> post-:slug
+    return RouteUtils.formatSegment(segment);
   }
 
   private segmentsMatch(searchSeg: string, routeSeg: string): boolean {
@@ -571,12 +782,13 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
 
     // Normalize the route segment
     const normalizedRouteSeg = this.normalizeSegment(routeSeg);
+    const { parts } = RouteUtils.parseSegment(routeSeg);
+    const params = parts.filter((part) => part.type === "param");
 
     // If search segment starts with ':', treat it as looking for a parameter
     if (searchSeg.startsWith(":")) {
-      const searchParamName = searchSeg.slice(1);
-      // Match if route segment is any type of parameter
-      return routeSeg.startsWith("[");
+      // Match if route segment has any type of parameter
+      return params.length > 0;
     }
 
     // For exact matches
@@ -585,20 +797,30 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
     }
 
     // For rest parameters
-    if (routeSeg.startsWith("[...")) {
+    if (parts.length === 1 && params[0]?.rest) {
       return true;
     }
 
+    // Mixed segments like post-[slug] also match concrete values like post-hello
+    if (params.length > 0 && params.length < parts.length) {
+      return RouteMatchingUtils.parseRouteId(`/${routeSeg}`).pattern.test(
+        `/${searchSeg}`
+      );
+    }
+
     // For normal parameters, require exact matches
-    if (routeSeg.startsWith("[")) {
+    if (params.length > 0) {
       return normalizedRouteSeg === searchSeg;
     }
 
     // For static segments, require exact matches
-    return searchSeg === routeSeg;
+    return searchSeg === RouteUtils.decodeRoutePath(routeSeg);
   }
 
-  private filterRoutes(routes: RouteItem[]): RouteItem[] {
+  private filterRoutes(
+    project: SvelteProject,
+    routes: RouteItem[]
+  ): RouteItem[] {
     if (!this.searchPattern) {
       return routes;
     }
@@ -624,11 +846,12 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
           route.routePath,
           route.filePath,
           filteredChildren,
-          this.port,
+          project.getPort(),
           route.routeType,
           true,
           route.resetInfo,
-          route.fileType
+          route.fileType,
+          route.layoutChain
         );
       }
 
@@ -677,32 +900,28 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
    */
   async openRoute(input: string | RouteItem) {
     if (typeof input === "string") {
-      let relativePath: string;
+      let pathname: string;
+      let origin: string | undefined;
+      let port: number | undefined;
 
       try {
         // Handle both URLs and direct paths
         if (input.includes("://")) {
           const url = new URL(input);
-          relativePath = url.pathname;
+          pathname = url.pathname;
+          origin = url.origin;
+          port = url.port ? Number(url.port) : undefined;
         } else {
           // Handle paths that might start with / or not
-          relativePath = input.startsWith("/") ? input.slice(1) : input;
+          pathname = input.startsWith("/") ? input : `/${input}`;
         }
 
-        // Remove trailing slash if present
-        relativePath = relativePath.replace(/\/$/, "");
-
-        // Handle empty path (root route)
-        if (!relativePath) {
-          relativePath = "/";
-        }
-
-        const routeFile = await this.findMatchingRoute(relativePath);
+        const routeFile = await this.findRouteInProjects(pathname, origin, port);
 
         if (routeFile) {
           const document = await vscode.workspace.openTextDocument(routeFile);
           await vscode.window.showTextDocument(document);
-        } else {
+        } else if (routeFile === null) {
           vscode.window.showErrorMessage(
             `No matching route found for: ${input}`
           );
@@ -721,204 +940,446 @@ export class RoutesProvider implements vscode.TreeDataProvider<RouteItem> {
   }
 
   /**
-   * Finds matching route file for given path
+   * Finds a route across all projects. A URL's origin (or failing that, its
+   * port) picks the project served there, otherwise the user chooses when
+   * several projects have a match. Returns undefined if the choice was cancelled.
    */
-  async findMatchingRoute(relativePath: string): Promise<string | null> {
-    const routesDir = this.getRoutesDir();
+  private async findRouteInProjects(
+    pathname: string,
+    origin?: string,
+    port?: number
+  ): Promise<string | null | undefined> {
+    const projects = this.getProjects();
+    const servedAtOrigin = projects.filter(
+      (project) => project.getOrigin() === origin
+    );
+    const servedOnPort = projects.filter(
+      (project) => project.getPort() === port
+    );
+    const candidates = [servedAtOrigin, servedOnPort, projects].find(
+      (list) => list.length > 0
+    )!;
+
+    const matches: { project: SvelteProject; filePath: string }[] = [];
+    for (const project of candidates) {
+      const filePath = await this.findMatchingRoute(
+        this.stripBasePath(project, pathname),
+        project
+      );
+      if (filePath) {
+        matches.push({ project, filePath });
+      }
+    }
 
-    // Handle root path
-    if (relativePath === "/" || relativePath === "") {
-      return this.findMostSpecificPage(routesDir);
+    if (matches.length <= 1) {
+      return matches[0]?.filePath ?? null;
     }
 
-    const segments = relativePath.split("/").filter(Boolean);
-    return this.findMatchingSegments(routesDir, segments);
+    const selected = await vscode.window.showQuickPick(
+      matches.map(({ project, filePath }) => ({
+        label: project.name,
+        description: path.relative(project.root, filePath),
+        filePath,
+      })),
+      { placeHolder: "Several projects have a matching route" }
+    );
+    return selected?.filePath;
   }
 
-  private async findMatchingSegments(
-    currentDir: string,
-    segments: string[]
-  ): Promise<string | null> {
-    if (segments.length === 0) {
-      // For optional parameters, we need to look one level deeper even with no segments
-      const entries = await fs.promises.readdir(currentDir);
-      for (const entry of entries) {
-        if (entry.startsWith("[[") && entry.endsWith("]]")) {
-          const fullPath = path.join(currentDir, entry);
-          const optionalMatch = await this.findMostSpecificPage(fullPath);
-          if (optionalMatch) {
-            return optionalMatch;
-          }
-        }
-      }
-      return this.findMostSpecificPage(currentDir);
+  /**
+   * Removes the project's `paths.base` from a pathname that starts with it
+   */
+  stripBasePath(project: SvelteProject, pathname: string): string {
+    const base = project.getBasePath();
+    if (base && (pathname === base || pathname.startsWith(`${base}/`))) {
+      return pathname.slice(base.length) || "/";
     }
+    return pathname;
+  }
 
-    const currentSegment = segments[0];
-    const entries = await fs.promises.readdir(currentDir);
-    let bestMatch: string | null = null;
-    let bestScore = -1;
+  /**
+   * Finds matching route file for given path, using SvelteKit's route ranking
+   */
+  async findMatchingRoute(
+    relativePath: string,
+    project: SvelteProject = this.getActiveProject()
+  ): Promise<string | null> {
+    return (await this.matchRoute(relativePath, project))?.filePath ?? null;
+  }
 
-    // First pass: Check for exact and matcher routes
-    for (const entry of entries) {
-      const fullPath = path.join(currentDir, entry);
-      if (!(await fs.promises.stat(fullPath)).isDirectory()) {
-        continue;
-      }
+  /**
+   * Finds the route serving a path along with its param values, using SvelteKit's route ranking.
+   * Param values containing the `wildcard` stand for unknown values and pass any matcher.
+   */
+  async matchRoute(
+    relativePath: string,
+    project: SvelteProject = this.getActiveProject(),
+    wildcard?: string
+  ): Promise<RouteMatch | null> {
+    const pathname = RouteMatchingUtils.decodePathname(
+      "/" + relativePath.split("/").filter(Boolean).join("/")
+    );
+    const routes = await this.listRoutes(project);
 
-      const routeType = this.getRouteType(entry);
-      let match: string | null = null;
-      let score = 0;
-
-      if (routeType === "static" && entry === currentSegment) {
-        match = await this.findMatchingSegments(fullPath, segments.slice(1));
-        score = 100;
-      } else if (routeType === "matcher") {
-        // Only match if the parameter constraint is satisfied
-        if (this.isParameterMatchGeneric(currentSegment, entry)) {
-          match = await this.findMatchingSegments(fullPath, segments.slice(1));
-          score = 90;
-        }
+    for (const route of routes) {
+      const match = route.pattern.exec(pathname);
+      if (!match) {
+        continue;
       }
 
-      if (match && score > bestScore) {
-        bestMatch = match;
-        bestScore = score;
+      // A rejected matcher means a lower ranked route gets its turn
+      const matched = RouteMatchingUtils.exec(
+        match,
+        route.params,
+        (matcher, value) =>
+          (wildcard !== undefined && value.includes(wildcard)) ||
+          project.getParamMatchers().match(matcher, value)
+      );
+      if (matched) {
+        return { routeId: route.id, filePath: route.filePath, params: matched };
       }
     }
 
-    // If no match found yet, try other routes
-    if (!bestMatch) {
-      for (const entry of entries) {
-        const fullPath = path.join(currentDir, entry);
-        if (!(await fs.promises.stat(fullPath)).isDirectory()) {
-          continue;
-        }
+    return null;
+  }
 
-        const routeType = this.getRouteType(entry);
-        let match: string | null = null;
-        let score = 0;
-
-        switch (routeType) {
-          case "group":
-            match = await this.findMatchingSegments(fullPath, segments);
-            if (match) {
-              score = 95;
-            }
-            break;
-          case "dynamic":
-            match = await this.findMatchingSegments(
-              fullPath,
-              segments.slice(1)
-            );
-            score = 80;
-            break;
-          case "optional":
-            match = await this.findMatchingSegments(
-              fullPath,
-              segments.slice(1)
-            );
-            if (match) {
-              score = 70;
-            } else {
-              match = await this.findMatchingSegments(fullPath, segments);
-              if (match) {
-                score = 60;
-              }
-            }
-            break;
-          case "rest":
-            match = await this.findMostSpecificPage(fullPath);
-            score = 50;
-            break;
-        }
+  /**
+   * Resolves an internal link in a file to the route or static file serving it.
+   * Links with interpolations resolve to the route matching any value for them.
+   * Returns null when nothing serves the link or it is outside the base path.
+   */
+  async resolveLink(
+    filePath: string,
+    link: RouteLink
+  ): Promise<RouteLinkTarget | null> {
+    const project = this.getProjectForFile(filePath);
+    const base = project?.getBasePath();
+    if (
+      !project ||
+      (base && link.template !== base && !link.template.startsWith(`${base}/`))
+    ) {
+      return null;
+    }
 
-        if (match && score > bestScore) {
-          bestMatch = match;
-          bestScore = score;
-        }
-      }
+    const relativePath = this.stripBasePath(project, link.template);
+    if (link.dynamic) {
+      const route = await this.matchRoute(relativePath, project, LINK_WILDCARD);
+      return route && { filePath: route.filePath, route };
     }
 
-    return bestMatch;
+    const route = await this.matchRoute(relativePath, project);
+    if (route) {
+      return { filePath: route.filePath, route };
+    }
+    const asset = this.findStaticAsset(project, relativePath);
+    return asset ? { filePath: asset, route: null } : null;
   }
 
-  private findMostSpecificPage(dir: string): string | null {
-    if (!fs.existsSync(dir)) {
+  /**
+   * Finds the file in the project's static assets directory served at a path
+   */
+  findStaticAsset(project: SvelteProject, relativePath: string): string | null {
+    const assetsDir = project.getKitFiles().assets;
+    let filePath: string;
+    try {
+      filePath = path.join(assetsDir, decodeURIComponent(relativePath));
+    } catch {
+      return null;
+    }
+
+    const relative = path.relative(assetsDir, filePath);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      return null;
+    }
+    try {
+      return fs.statSync(filePath).isFile() ? filePath : null;
+    } catch {
       return null;
     }
+  }
+
+  /**
+   * Returns every page and endpoint route of a project with its most specific file, highest ranked first.
+   * The routes and their patterns are kept on the project until its routes change.
+   */
+  async listRoutes(project: SvelteProject): Promise<ListedRoute[]> {
+    const index = project.getRouteIndex();
+    await index.ready();
+    return project.getDerived("listedRoutes", () =>
+      RouteMatchingUtils.sortRoutes(
+        this.collectRoutes(index, project.getRoutesDir(), "/")
+      ).map((route) => ({ ...route, ...this.parseRouteId(project, route.id) }))
+    );
+  }
+
+  /**
+   * Returns the URL pattern and params of a route id, or of a single
+   * segment like `/[slug]`, parsed once until the project's routes change
+   */
+  parseRouteId(project: SvelteProject, routeId: string): ParsedRoute {
+    const parsed = project.getDerived(
+      "parsedRouteIds",
+      () => new Map<string, ParsedRoute>()
+    );
+    let route = parsed.get(routeId);
+    if (!route) {
+      route = RouteMatchingUtils.parseRouteId(routeId);
+      parsed.set(routeId, route);
+    }
+    return route;
+  }
 
-    const files = fs.readdirSync(dir);
+  /**
+   * Describes every directory of a project's routes tree that holds route
+   * files, parents before children, for exporting the routes
+   */
+  async getRouteManifest(project: SvelteProject): Promise<RouteManifest> {
+    const index = project.getRouteIndex();
+    await index.ready();
+
+    const routes: RouteManifestEntry[] = [];
+    const visit = (dir: string, routeId: string) => {
+      const fileInfos = this.findPageInfo(project, dir);
+      if (fileInfos.length > 0) {
+        routes.push(this.createManifestEntry(project, routeId, fileInfos));
+      }
+
+      // A fixed order, so manifests of different machines can be diffed
+      const entries = [...index.listSubdirs(dir)].sort(RouteUtils.naturalSort);
+      for (const entry of entries) {
+        visit(path.join(dir, entry), path.posix.join(routeId, entry));
+      }
+    };
+    visit(project.getRoutesDir(), "/");
+
+    return { base: project.getBasePath(), routes };
+  }
+
+  private createManifestEntry(
+    project: SvelteProject,
+    routeId: string,
+    fileInfos: RouteFileInfo[]
+  ): RouteManifestEntry {
+    const params = RouteUtils.getRouteParams(routeId);
+    const files = [...fileInfos].sort((a, b) =>
+      a.filePath.localeCompare(b.filePath)
+    );
+    // The page decides which layouts apply, otherwise the directory's own layout
+    const rank = (fileType: string) =>
+      ["page", "layout", "error"].indexOf(fileType) + 1 || 4;
+    const [main] = [...files].sort(
+      (a, b) => rank(a.fileType) - rank(b.fileType)
+    );
+
+    return {
+      id: routeId,
+      pattern:
+        "/" +
+        RouteMatchingUtils.getRouteSegments(routeId)
+          .map((segment) => RouteUtils.formatSegment(segment))
+          .join("/"),
+      params: params.map((param) => ({
+        name: param.name,
+        matcher: param.matcher ?? null,
+        optional: param.optional,
+        rest: param.rest,
+      })),
+      matchers: [
+        ...new Set(
+          params.flatMap((param) => (param.matcher ? [param.matcher] : []))
+        ),
+      ],
+      files: files.map((info) => ({
+        type: info.fileType,
+        path: path
+          .relative(project.root, info.filePath)
+          .split(path.sep)
+          .join("/"),
+      })),
+      layouts: main.layoutChain.map((layout) => layout.routeId),
+      groups: routeId
+        .split("/")
+        .filter((segment) => RouteUtils.parseSegment(segment).group !== null),
+      reset:
+        files.find((info) => info.resetInfo)?.resetInfo?.resetTarget ?? null,
+    };
+  }
+
+  /**
+   * Collects every route that can be navigated to (has a page or endpoint) with its SvelteKit route id
+   */
+  private collectRoutes(
+    index: RouteIndex,
+    dir: string,
+    routeId: string
+  ): { id: string; filePath: string }[] {
+    const routes: { id: string; filePath: string }[] = [];
+
+    const filePath = this.findMostSpecificPage(index, dir);
+    if (filePath) {
+      routes.push({ id: routeId, filePath });
+    }
+
+    for (const entry of index.listSubdirs(dir)) {
+      routes.push(
+        ...this.collectRoutes(
+          index,
+          path.join(dir, entry),
+          path.posix.join(routeId, entry)
+        )
+      );
+    }
+
+    return routes;
+  }
+
+  private findMostSpecificPage(index: RouteIndex, dir: string): string | null {
+    const files = index
+      .listFiles(dir)
+      .map((file) => ({ file, kind: RouteFileUtils.classify(file) }));
 
     // Check for all possible page/server files
     const filePriorities = [
-      (f: string) => f.match(/\+page@\([^)]+\)\.svelte$/), // Layout reset with target
-      (f: string) => f === "+page@.svelte", // Root layout reset
-      (f: string) => f === "+server.js", // Server route
-      (f: string) => f === "+page.svelte", // Regular page
+      (kind: RouteFileKind) => kind.fileType === "page" && !!kind.resetTarget, // Layout reset with target
+      (kind: RouteFileKind) => kind.fileType === "page" && kind.resetTarget === "", // Root layout reset
+      (kind: RouteFileKind) => kind.fileType === "server", // Server route (+server.ts/js)
+      (kind: RouteFileKind) => kind.fileType === "page", // Regular page
     ];
 
     for (const checkPriority of filePriorities) {
-      const matchingFile = files.find(checkPriority);
+      const matchingFile = files.find(({ kind }) => kind && checkPriority(kind));
       if (matchingFile) {
-        return path.join(dir, matchingFile);
+        return path.join(dir, matchingFile.file);
       }
     }
 
     return null;
   }
 
-  private isParameterMatchGeneric(
-    value: string,
-    paramPattern: string
-  ): boolean {
-    const matcherMatch = paramPattern.match(/\[([^=]+)=([^\]]+)\]/);
-    if (!matcherMatch) {
-      return false;
+  /**
+   * Returns the id of the route a route file belongs to, e.g. /blog/[slug],
+   * or undefined for any other file
+   */
+  getRouteIdForFile(filePath: string): string | undefined {
+    const project = this.getProjectForFile(filePath);
+    if (!project || !RouteFileUtils.classify(path.basename(filePath))) {
+      return undefined;
     }
 
-    const [, paramName, matcher] = matcherMatch;
-    const patterns: { [key: string]: RegExp } = {
-      integer: /^\d+$/,
-      float: /^\d*\.?\d+$/,
-      alpha: /^[a-zA-Z]+$/,
-      alphanumeric: /^[a-zA-Z0-9]+$/,
-      uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
-      date: /^\d{4}-\d{2}-\d{2}$/,
-    };
+    const relative = path.relative(project.getRoutesDir(), path.dirname(filePath));
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      return undefined;
+    }
+    return "/" + relative.split(path.sep).filter(Boolean).join("/");
+  }
 
-    return patterns[matcher] ? patterns[matcher].test(value) : true;
+  /**
+   * Returns the layouts wrapping a route file, root layout first
+   */
+  getLayoutChain(filePath: string): LayoutInfo[] {
+    const project =
+      this.getProjectForFile(filePath) ?? this.getActiveProject();
+    return LayoutChainUtils.resolveLayoutChain(project.getRoutesDir(), filePath);
   }
 
-  private getRouteType(entry: string): RouteType {
-    if (entry.startsWith("(") && entry.endsWith(")")) {
-      return "group";
-    }
-    if (!entry.includes("[")) {
-      return "static";
-    }
-    if (entry.startsWith("[[") && entry.endsWith("]]")) {
-      return "optional";
-    }
-    if (entry.startsWith("[...")) {
-      return "rest";
-    }
-    if (entry.includes("[") && entry.includes("=")) {
-      return "matcher";
+  /**
+   * Builds the dev server URL of a route, prompting for the values of its params.
+   * Returns undefined if the prompt was cancelled.
+   */
+  async getRouteUrl(
+    route: Pick<RouteItem, "filePath" | "routePath">,
+    paramPrompt: RouteParamPrompt
+  ): Promise<string | undefined> {
+    const project =
+      this.getProjectForFile(route.filePath) ?? this.getActiveProject();
+    const routeId = "/" + route.routePath.replace(/\\/g, "/").replace(/^\/+/, "");
+
+    const params = RouteUtils.getRouteParams(routeId);
+    const values =
+      params.length > 0
+        ? await paramPrompt.prompt(
+            `${project.root}:${routeId}`,
+            routeId,
+            params,
+            project.getParamMatchers()
+          )
+        : {};
+    if (!values) {
+      return undefined;
     }
-    return "dynamic";
+
+    // The dev server may have moved to another port since it was last detected
+    await this.detectDevServers();
+    return this.formatRouteUrl(
+      project,
+      routeId,
+      RouteMatchingUtils.encodeParams(routeId, values)
+    );
   }
 
   /**
-   * Opens a route in the browser
+   * Builds the URL of a route from its param values, with the project's
+   * base path and the route's `trailingSlash` option
    */
-  openInBrowser(route: RouteItem) {
-    if (route.routePath) {
-      const url = `http://localhost:${this.port}${route.routePath.replace(
-        /\\/g,
-        "/"
-      )}`;
-      vscode.env.openExternal(vscode.Uri.parse(url));
-    }
+  async formatRouteUrl(
+    project: SvelteProject,
+    routeId: string,
+    values: Record<string, string>
+  ): Promise<string> {
+    const pathname = PageOptionsUtils.applyTrailingSlash(
+      project.getBasePath() + RouteMatchingUtils.resolveRoute(routeId, values),
+      await this.getTrailingSlash(project, routeId)
+    );
+    return project.getOrigin() + pathname;
+  }
+
+  /**
+   * Resolves the `trailingSlash` option of a route. Pages inherit it from
+   * their layouts, endpoints only read their own module.
+   */
+  async getTrailingSlash(
+    project: SvelteProject,
+    routeId: string
+  ): Promise<TrailingSlash> {
+    return PageOptionsUtils.resolveTrailingSlash(
+      await this.getOptionModules(project, routeId)
+    );
+  }
+
+  /**
+   * Returns the modules that set a route's page options, root layout first
+   */
+  async getOptionModules(
+    project: SvelteProject,
+    routeId: string
+  ): Promise<string[]> {
+    const routesDir = project.getRoutesDir();
+    const index = project.getRouteIndex();
+    const dir = path.join(routesDir, ...routeId.split("/"));
+    await index.ready();
+
+    const files = index.listFiles(dir).map((file) => ({
+      filePath: path.join(dir, file),
+      kind: RouteFileUtils.classify(file),
+    }));
+    const page = files.find(({ kind }) => kind?.fileType === "page");
+    const moduleTypes = page ? ["pageClient", "pageServer"] : ["server"];
+
+    const layouts = page
+      ? LayoutChainUtils.resolveLayoutChain(
+          routesDir,
+          page.filePath,
+          (layoutDir) => index.listFiles(layoutDir)
+        )
+      : [];
+
+    // Indexed files are sorted, so +page.server.ts comes before +page.ts and
+    // the universal module wins within a directory, as it does in SvelteKit
+    return [
+      ...layouts.flatMap((layout) => layout.loadFiles),
+      ...files
+        .filter(({ kind }) => kind && moduleTypes.includes(kind.fileType))
+        .map(({ filePath }) => filePath),
+    ];
   }
 }
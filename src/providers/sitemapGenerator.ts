@@ -0,0 +1,141 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { SitemapResult, SitemapSkippedRoute } from "../constant/type";
+import { RoutesProvider } from "./routesProvider";
+import { SvelteProject } from "../models/svelteProject";
+import { PageOptionsUtils } from "../utils/pageOptionsUtils";
+import { SitemapUtils } from "../utils/sitemapUtils";
+
+const DEFAULT_PARAMS_FILE = "sitemap.params.json";
+
+/**
+ * Writes a sitemap.xml of a project's page routes without a running server.
+ * Dynamic routes are expanded with the values of their `entries` function
+ * and of a params file mapping route ids to param values.
+ */
+export class SitemapGenerator {
+  constructor(private readonly routesProvider: RoutesProvider) {}
+
+  async generate(
+    project: SvelteProject,
+    siteUrl: string
+  ): Promise<SitemapResult> {
+    const config = vscode.workspace.getConfiguration("svelteRadar");
+    const skipUnprerendered = config.get("sitemap.skipUnprerendered", false);
+    const skipAuthGuarded = config.get("sitemap.skipAuthGuarded", false);
+    const paramsFile = await this.readParamsFile(project);
+
+    const { routes } = await this.routesProvider.getRouteManifest(project);
+    const urls: string[] = [];
+    const skipped: SitemapSkippedRoute[] = [];
+    const origin = siteUrl.replace(/\/+$/, "");
+
+    for (const route of routes) {
+      if (!route.files.some((file) => file.type === "page")) {
+        continue;
+      }
+
+      const modules = await this.routesProvider.getOptionModules(
+        project,
+        route.id
+      );
+      if (
+        skipUnprerendered &&
+        PageOptionsUtils.resolvePrerender(modules) === false
+      ) {
+        skipped.push({ routeId: route.id, reason: "prerender is false" });
+        continue;
+      }
+      if (skipAuthGuarded && PageOptionsUtils.hasAuthGuard(modules)) {
+        skipped.push({ routeId: route.id, reason: "requires signing in" });
+        continue;
+      }
+
+      // Only the page's own modules export `entries`, layouts don't
+      const entries = route.files
+        .filter((file) => ["pageClient", "pageServer"].includes(file.type))
+        .flatMap(
+          (file) =>
+            PageOptionsUtils.readEntries(path.join(project.root, file.path)) ??
+            []
+        );
+      const pathnames = SitemapUtils.expandRoute(
+        route.id,
+        [...entries, ...(paramsFile[route.id] ?? [])],
+        (matcher, value) => project.getParamMatchers().match(matcher, value)
+      );
+      if (pathnames.length === 0) {
+        skipped.push({
+          routeId: route.id,
+          reason: "no param values in entries or the params file",
+        });
+        continue;
+      }
+
+      const trailingSlash = PageOptionsUtils.resolveTrailingSlash(modules);
+      for (const pathname of pathnames) {
+        urls.push(
+          origin +
+            PageOptionsUtils.applyTrailingSlash(
+              project.getBasePath() + pathname,
+              trailingSlash
+            )
+        );
+      }
+    }
+
+    const output = this.getOutput(project);
+    const unique = [...new Set(urls)];
+    await fs.promises.mkdir(path.dirname(output), { recursive: true });
+    await fs.promises.writeFile(output, SitemapUtils.toXml(unique));
+    return { output, urls: unique, skipped };
+  }
+
+  /**
+   * Reads the param values of the params file, e.g.
+   * `{ "/blog/[slug]": [{ "slug": "hello" }] }`
+   */
+  private async readParamsFile(
+    project: SvelteProject
+  ): Promise<Record<string, Record<string, string>[]>> {
+    const filePath = path.resolve(
+      project.root,
+      vscode.workspace
+        .getConfiguration("svelteRadar")
+        .get<string>("sitemap.paramsFile") || DEFAULT_PARAMS_FILE
+    );
+    if (!fs.existsSync(filePath)) {
+      return {};
+    }
+
+    let paramsFile: unknown;
+    try {
+      paramsFile = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+    } catch (error) {
+      throw new Error(
+        `${path.basename(filePath)} is not valid JSON: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+
+    const problem = SitemapUtils.validateParamsFile(paramsFile);
+    if (problem) {
+      throw new Error(`${path.basename(filePath)}: ${problem}`);
+    }
+    return paramsFile as Record<string, Record<string, string>[]>;
+  }
+
+  /**
+   * The configured output, or sitemap.xml in the static assets directory
+   */
+  private getOutput(project: SvelteProject): string {
+    const output = vscode.workspace
+      .getConfiguration("svelteRadar")
+      .get<string>("sitemap.output");
+    return output
+      ? path.resolve(project.root, output)
+      : path.join(project.getKitFiles().assets, "sitemap.xml");
+  }
+}
@@ -1,7 +1,38 @@
 import * as assert from 'assert';
 import * as path from 'path';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import { AddressInfo } from 'net';
 import * as vscode from 'vscode';
 import { RoutesProvider } from '../providers/routesProvider';
+import { RouteItem } from '../models/routeItem';
+import { RouteMatchingUtils } from '../utils/routeMatchingUtils';
+import { RouteUtils } from '../utils/routeUtils';
+import { LayoutChainUtils } from '../utils/layoutChainUtils';
+import { RouteFileUtils } from '../utils/routeFileUtils';
+import { ProjectUtils } from '../utils/projectUtils';
+import { RouteIndex } from '../utils/routeIndex';
+import { RouteParamPrompt } from '../utils/routeParamPrompt';
+import { PageOptionsUtils } from '../utils/pageOptionsUtils';
+import { DevServerDetector } from '../utils/devServerDetector';
+import { SvelteConfigUtils } from '../utils/svelteConfigUtils';
+import { SvelteProject } from '../models/svelteProject';
+import { RouteConflictUtils } from '../utils/routeConflictUtils';
+import { RouteLintUtils } from '../utils/routeLintUtils';
+import { RouteLinkUtils } from '../utils/routeLinkUtils';
+import { LinkValidator } from '../providers/linkValidator';
+import { RouteLinkProvider } from '../providers/routeLinkProvider';
+import { RouteCompletionProvider } from '../providers/routeCompletionProvider';
+import { RouteHelperGenerator } from '../providers/routeHelperGenerator';
+import { RouteHelperUtils } from '../utils/routeHelperUtils';
+import { RouteExportUtils } from '../utils/routeExportUtils';
+import { SitemapUtils } from '../utils/sitemapUtils';
+import { SitemapGenerator } from '../providers/sitemapGenerator';
+import { RoutePreviewPanel } from '../providers/routePreviewPanel';
+import { RouteGraphUtils } from '../utils/routeGraphUtils';
+import { RouteScaffoldUtils } from '../utils/routeScaffoldUtils';
+import { RouteLintProblem } from '../constant/type';
 
 suite('Route Matching Test Suite', () => {
     let routesProvider: RoutesProvider;
@@ -148,6 +179,44 @@ suite('Route Matching Test Suite', () => {
         });
     });
 
+    suite('Project Param Matchers', () => {
+        test('Should evaluate matchers from the params directory', async () => {
+            const result = await routesProvider.findMatchingRoute('/tags/hello-world');
+            assert.strictEqual(
+                normalizePath(result!),
+                getExpectedPath('tags/[tag=slug]/+page.svelte')
+            );
+        });
+
+        test('Should fall through when a project matcher rejects the value', async () => {
+            const result = await routesProvider.findMatchingRoute('/tags/Hello_World');
+            assert.strictEqual(
+                normalizePath(result!),
+                getExpectedPath('tags/[...rest]/+page.svelte')
+            );
+        });
+
+        test('Should not match everything with a matcher that cannot be evaluated', async () => {
+            const result = await routesProvider.findMatchingRoute('/items/anything');
+            assert.strictEqual(
+                normalizePath(result!),
+                getExpectedPath('items/[name]/+page.svelte')
+            );
+        });
+
+        test('Should not match with an unknown matcher', async () => {
+            const result = await routesProvider.findMatchingRoute('/users/42');
+            assert.strictEqual(result, null);
+        });
+
+        test('Should list matchers defined in the params directory', () => {
+            assert.deepStrictEqual(
+                routesProvider.getParamMatchers().listMatchers().sort(),
+                ['broken', 'slug']
+            );
+        });
+    });
+
     suite('Edge Cases', () => {
         test('Should handle empty path segments', async () => {
             const result = await routesProvider.findMatchingRoute('///about///team///');
@@ -172,6 +241,1404 @@ suite('Route Matching Test Suite', () => {
     });
 });
 
+suite('Route Ranking Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let workspaceDir: string;
+
+    suiteSetup(async () => {
+        workspaceDir = path.resolve(__dirname, '../../test-fixtures');
+        routesProvider = new RoutesProvider(workspaceDir);
+    });
+
+    function sortIds(ids: string[]): string[] {
+        return RouteMatchingUtils.sortRoutes(ids.map(id => ({ id }))).map(route => route.id);
+    }
+
+    async function match(url: string): Promise<string | null> {
+        const result = await routesProvider.findMatchingRoute(url);
+        return result && path.relative(path.join(workspaceDir, 'src/routes'), result).replace(/\\/g, '/');
+    }
+
+    suite('Sorting', () => {
+        test('Should rank routes as in the SvelteKit docs', () => {
+            assert.deepStrictEqual(
+                sortIds(['/[...catchall]', '/[[a=x]]', '/[b]', '/foo-[c]', '/foo-abc']),
+                ['/foo-abc', '/foo-[c]', '/[[a=x]]', '/[b]', '/[...catchall]']
+            );
+        });
+
+        test('Static segments should outrank dynamic ones', () => {
+            assert.deepStrictEqual(
+                sortIds(['/blog/[slug]', '/blog/new', '/blog']),
+                ['/blog', '/blog/new', '/blog/[slug]']
+            );
+        });
+
+        test('Longer static prefixes should outrank shorter ones', () => {
+            assert.deepStrictEqual(
+                sortIds(['/foo-[c]', '/foo-bar-[c]']),
+                ['/foo-bar-[c]', '/foo-[c]']
+            );
+        });
+
+        test('Params with matchers should outrank params without', () => {
+            assert.deepStrictEqual(
+                sortIds(['/[slug]', '/[id=integer]']),
+                ['/[id=integer]', '/[slug]']
+            );
+        });
+
+        test('Required params should outrank optional params', () => {
+            assert.deepStrictEqual(
+                sortIds(['/[[lang]]', '/[slug]']),
+                ['/[slug]', '/[[lang]]']
+            );
+        });
+
+        test('Optional params followed by other segments should be ignored for ranking', () => {
+            assert.deepStrictEqual(
+                sortIds(['/[slug]', '/[[lang]]/about']),
+                ['/[[lang]]/about', '/[slug]']
+            );
+        });
+
+        test('Rest params followed by a static segment should outrank plain params', () => {
+            assert.deepStrictEqual(
+                sortIds(['/[...path]', '/[id]', '/[...path]/edit']),
+                ['/[...path]/edit', '/[id]', '/[...path]']
+            );
+        });
+
+        test('Plain params followed by a static segment should outrank rest params followed by one', () => {
+            assert.deepStrictEqual(
+                sortIds(['/[...path]/edit', '/[id]/edit']),
+                ['/[id]/edit', '/[...path]/edit']
+            );
+        });
+
+        test('Groups should not affect ranking', () => {
+            assert.deepStrictEqual(
+                sortIds(['/(app)/[slug]', '/(marketing)/about']),
+                ['/(marketing)/about', '/(app)/[slug]']
+            );
+        });
+    });
+
+    suite('Matching', () => {
+        test('Should prefer a static segment over a mixed one', async () => {
+            assert.strictEqual(await match('/ranking/mixed/foo-abc'), 'ranking/mixed/foo-abc/+page.svelte');
+        });
+
+        test('Should prefer a mixed segment over a plain param', async () => {
+            assert.strictEqual(await match('/ranking/mixed/foo-xyz'), 'ranking/mixed/foo-[c]/+page.svelte');
+        });
+
+        test('Should prefer an optional param with a matcher over a plain param', async () => {
+            assert.strictEqual(await match('/ranking/mixed/42'), 'ranking/mixed/[[a=integer]]/+page.svelte');
+        });
+
+        test('Should fall back to a plain param when the matcher rejects the value', async () => {
+            assert.strictEqual(await match('/ranking/mixed/bar'), 'ranking/mixed/[b]/+page.svelte');
+        });
+
+        test('Should match an optional param with no value', async () => {
+            assert.strictEqual(await match('/ranking/mixed'), 'ranking/mixed/[[a=integer]]/+page.svelte');
+        });
+
+        test('Should match a catch-all with multiple segments', async () => {
+            assert.strictEqual(await match('/ranking/mixed/a/b'), 'ranking/mixed/[...catchall]/+page.svelte');
+        });
+
+        test('Should prefer a rest param followed by a static segment', async () => {
+            assert.strictEqual(await match('/ranking/files/a/b/edit'), 'ranking/files/[...path]/edit/+page.svelte');
+            assert.strictEqual(await match('/ranking/files/edit'), 'ranking/files/[...path]/edit/+page.svelte');
+        });
+
+        test('Should prefer a plain param over a trailing rest param', async () => {
+            assert.strictEqual(await match('/ranking/files/a'), 'ranking/files/[id]/+page.svelte');
+            assert.strictEqual(await match('/ranking/files/a/b'), 'ranking/files/[...path]/+page.svelte');
+        });
+
+        test('Should match multiple rest params', async () => {
+            assert.strictEqual(
+                await match('/ranking/multi/x/y/mid/z/w'),
+                'ranking/multi/[...a]/mid/[...b]/+page.svelte'
+            );
+        });
+
+        test('Should prefer an optional param followed by a static segment', async () => {
+            assert.strictEqual(await match('/ranking/opt/about'), 'ranking/opt/[[lang]]/about/+page.svelte');
+            assert.strictEqual(await match('/ranking/opt/en/about'), 'ranking/opt/[[lang]]/about/+page.svelte');
+            assert.strictEqual(await match('/ranking/opt/en'), 'ranking/opt/[slug]/+page.svelte');
+        });
+
+        test('Should backtrack when a deeper static match fails', async () => {
+            assert.strictEqual(await match('/ranking/backtrack/static/x'), 'ranking/backtrack/[a]/x/+page.svelte');
+            assert.strictEqual(await match('/ranking/backtrack/static/y'), 'ranking/backtrack/static/y/+page.svelte');
+        });
+    });
+});
+
+suite('Route Segment Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let workspaceDir: string;
+
+    suiteSetup(async () => {
+        workspaceDir = path.resolve(__dirname, '../../test-fixtures');
+        routesProvider = new RoutesProvider(workspaceDir);
+    });
+
+    async function match(url: string): Promise<string | null> {
+        const result = await routesProvider.findMatchingRoute(url);
+        return result && path.relative(path.join(workspaceDir, 'src/routes'), result).replace(/\\/g, '/');
+    }
+
+    suite('Parsing', () => {
+        test('Should split mixed segments into literal and param parts', () => {
+            assert.deepStrictEqual(RouteUtils.parseSegment('post-[slug]').parts, [
+                { type: 'literal', value: 'post-' },
+                { type: 'param', name: 'slug', matcher: undefined, optional: false, rest: false }
+            ]);
+        });
+
+        test('Should parse multiple params with matchers, optional and rest flags', () => {
+            assert.deepStrictEqual(RouteUtils.parseSegment('[[lang=locale]]-[...rest]').parts, [
+                { type: 'param', name: 'lang', matcher: 'locale', optional: true, rest: false },
+                { type: 'literal', value: '-' },
+                { type: 'param', name: 'rest', matcher: undefined, optional: false, rest: true }
+            ]);
+        });
+
+        test('Should decode escapes as literal characters', () => {
+            assert.deepStrictEqual(RouteUtils.parseSegment('time[x+3a]now').parts, [
+                { type: 'literal', value: 'time:now' }
+            ]);
+        });
+
+        test('Should recognize groups', () => {
+            assert.strictEqual(RouteUtils.parseSegment('(auth)').group, 'auth');
+        });
+    });
+
+    suite('Classification', () => {
+        test('Should classify segments by their params', () => {
+            assert.strictEqual(RouteUtils.getSegmentType('about'), 'static');
+            assert.strictEqual(RouteUtils.getSegmentType('time[x+3a]now'), 'static');
+            assert.strictEqual(RouteUtils.getSegmentType('post-[slug]'), 'dynamic');
+            assert.strictEqual(RouteUtils.getSegmentType('[lang]-[region]'), 'dynamic');
+            assert.strictEqual(RouteUtils.getSegmentType('v[version=integer]'), 'matcher');
+            assert.strictEqual(RouteUtils.getSegmentType('[[lang]]'), 'optional');
+            assert.strictEqual(RouteUtils.getSegmentType('[...path]'), 'rest');
+            assert.strictEqual(RouteUtils.getSegmentType('(auth)'), 'group');
+        });
+
+        test('Should format segments for display', () => {
+            assert.strictEqual(RouteUtils.formatSegment('post-[slug]'), 'post-:slug');
+            assert.strictEqual(RouteUtils.formatSegment('[lang]-[region]'), ':lang-:region');
+            assert.strictEqual(RouteUtils.formatSegment('v[version=integer]'), 'v:version');
+            assert.strictEqual(RouteUtils.formatSegment('[[lang]]'), ':lang?');
+            assert.strictEqual(RouteUtils.formatSegment('[...path]'), '*path');
+        });
+    });
+
+    suite('Matching', () => {
+        test('Should match a literal prefix followed by a param', async () => {
+            assert.strictEqual(await match('/mixed/post-hello'), 'mixed/post-[slug]/+page.svelte');
+        });
+
+        test('Should match multiple params in one segment', async () => {
+            assert.strictEqual(await match('/mixed/en-us'), 'mixed/[lang]-[region]/+page.svelte');
+        });
+
+        test('Should apply matchers in mixed segments', async () => {
+            assert.strictEqual(await match('/mixed/v2'), 'mixed/v[version=integer]/+page.svelte');
+            assert.strictEqual(await match('/mixed/vx'), null);
+        });
+
+        test('Should match escaped characters', async () => {
+            assert.strictEqual(await match('/mixed/time:now'), 'mixed/time[x+3a]now/+page.svelte');
+        });
+    });
+});
+
+suite('Route File Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let routesDir: string;
+
+    suiteSetup(async () => {
+        const workspaceDir = path.resolve(__dirname, '../../test-fixtures');
+        routesProvider = new RoutesProvider(workspaceDir);
+        routesDir = path.join(workspaceDir, 'src/routes');
+    });
+
+    suite('Classification', () => {
+        test('Should classify route files', () => {
+            assert.deepStrictEqual(RouteFileUtils.classify('+page.svelte'), { fileType: 'page', resetTarget: null, extension: 'svelte' });
+            assert.strictEqual(RouteFileUtils.classify('+page.server.ts')?.fileType, 'pageServer');
+            assert.strictEqual(RouteFileUtils.classify('+layout.js')?.fileType, 'layoutClient');
+            assert.strictEqual(RouteFileUtils.classify('+error.svelte')?.fileType, 'error');
+            assert.strictEqual(RouteFileUtils.classify('+server.ts')?.fileType, 'server');
+        });
+
+        test('Should read reset targets of pages and layouts', () => {
+            assert.deepStrictEqual(RouteFileUtils.classify('+layout@(app).svelte'), { fileType: 'layout', resetTarget: '(app)', extension: 'svelte' });
+            assert.strictEqual(RouteFileUtils.classify('+page@[id].svelte')?.resetTarget, '[id]');
+            assert.strictEqual(RouteFileUtils.classify('+page@.svelte')?.resetTarget, '');
+        });
+
+        test('Should reject names SvelteKit ignores', () => {
+            assert.strictEqual(RouteFileUtils.classify('+Page.svelte'), null);
+            assert.strictEqual(RouteFileUtils.classify('+page.server.svelte'), null);
+            assert.strictEqual(RouteFileUtils.classify('+server.svelte'), null);
+            assert.strictEqual(RouteFileUtils.classify('+error.ts'), null);
+            assert.strictEqual(RouteFileUtils.classify('+page@(app).ts'), null);
+            assert.strictEqual(RouteFileUtils.classify('page.svelte'), null);
+        });
+    });
+
+    suite('Matching', () => {
+        test('Should match a route with only a +server.ts', async () => {
+            const result = await routesProvider.findMatchingRoute('/variants/endpoint');
+            assert.strictEqual(result, path.join(routesDir, 'variants/endpoint/+server.ts'));
+        });
+
+        test('Should not match misnamed route files', async () => {
+            const result = await routesProvider.findMatchingRoute('/variants/misnamed');
+            assert.notStrictEqual(path.dirname(result ?? ''), path.join(routesDir, 'variants/misnamed'));
+        });
+    });
+});
+
+suite('Route Index Test Suite', () => {
+    let index: RouteIndex;
+    let routesDir: string;
+
+    suiteSetup(async () => {
+        routesDir = path.resolve(__dirname, '../../test-fixtures/src/routes');
+        index = new RouteIndex(routesDir);
+        await index.ready();
+    });
+
+    suiteTeardown(() => index.dispose());
+
+    test('Should index the folders of the routes directory', () => {
+        const subdirs = index.listSubdirs(routesDir);
+        assert.ok(subdirs.includes('about'));
+        assert.ok(subdirs.includes('(auth)'));
+        assert.deepStrictEqual(index.listSubdirs(path.join(routesDir, 'variants')), ['endpoint', 'misnamed']);
+    });
+
+    test('Should only keep route files', () => {
+        assert.deepStrictEqual(index.listFiles(path.join(routesDir, 'variants/endpoint')), ['+server.ts']);
+        assert.deepStrictEqual(index.listFiles(path.join(routesDir, 'variants/misnamed')), []);
+        assert.deepStrictEqual(index.listFiles(path.join(routesDir, 'about')), ['+layout.js', '+page.js', '+page.svelte']);
+    });
+
+    test('Should not know about folders outside the routes directory', () => {
+        assert.strictEqual(index.getDir(path.join(routesDir, 'variants/.drafts')), undefined);
+        assert.strictEqual(index.getDir(path.dirname(routesDir)), undefined);
+    });
+
+    test('Should follow symlinked folders without looping', async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'svelte-radar-'));
+        const loopDir = path.join(root, 'routes');
+        try {
+            fs.mkdirSync(path.join(loopDir, 'blog'), { recursive: true });
+            fs.mkdirSync(path.join(root, 'shared'));
+            fs.writeFileSync(path.join(root, 'shared/+page.svelte'), '');
+            fs.symlinkSync(loopDir, path.join(loopDir, 'blog/again'), 'junction');
+            fs.symlinkSync(path.join(root, 'shared'), path.join(loopDir, 'shared'), 'junction');
+
+            const loopIndex = new RouteIndex(loopDir);
+            try {
+                await loopIndex.ready();
+                assert.deepStrictEqual(loopIndex.listSubdirs(loopDir), ['blog', 'shared']);
+                assert.deepStrictEqual(loopIndex.listSubdirs(path.join(loopDir, 'blog')), []);
+                assert.deepStrictEqual(loopIndex.listFiles(path.join(loopDir, 'shared')), ['+page.svelte']);
+
+                // Folders linked after the scan get the same protection
+                fs.mkdirSync(path.join(loopDir, 'docs'));
+                fs.symlinkSync(loopDir, path.join(loopDir, 'docs/up'), 'junction');
+                await loopIndex['handleCreate'](path.join(loopDir, 'docs'));
+                await loopIndex['handleCreate'](path.join(loopDir, 'docs/up'));
+                assert.deepStrictEqual(loopIndex.listSubdirs(loopDir), ['blog', 'docs', 'shared']);
+                assert.deepStrictEqual(loopIndex.listSubdirs(path.join(loopDir, 'docs')), []);
+            } finally {
+                loopIndex.dispose();
+            }
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+});
+
+suite('Route Tree Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let routesDir: string;
+
+    suiteSetup(async () => {
+        const workspaceDir = path.resolve(__dirname, '../../test-fixtures');
+        routesProvider = new RoutesProvider(workspaceDir);
+        routesDir = path.join(workspaceDir, 'src/routes');
+    });
+
+    function collectIds(items: RouteItem[]): string[] {
+        return items.flatMap(item => [item.id!, ...collectIds(item.children)]);
+    }
+
+    test('Should give every item a unique id', async () => {
+        const ids = collectIds(await routesProvider.getChildren());
+        assert.strictEqual(new Set(ids).size, ids.length);
+    });
+
+    test('Should keep ids stable across rebuilds', async () => {
+        const first = collectIds(await routesProvider.getChildren());
+        routesProvider.refresh();
+        const second = collectIds(await routesProvider.getChildren());
+        assert.deepStrictEqual(second, first);
+    });
+
+    test('Should find the item and parents of a route file', async () => {
+        const filePath = path.join(routesDir, 'about/team/+page.svelte');
+        const item = await routesProvider.getItemForFile(filePath);
+        assert.strictEqual(item?.filePath, filePath);
+
+        // Walk up to a root item
+        let parent = item && routesProvider.getParent(item);
+        while (parent && routesProvider.getParent(parent)) {
+            parent = routesProvider.getParent(parent);
+        }
+        const roots = await routesProvider.getChildren();
+        assert.ok(!parent || roots.some(root => root.id === parent!.id));
+    });
+
+    test('Should link files to their folder in the hierarchical view', async () => {
+        routesProvider.toggleViewType();
+        try {
+            const item = await routesProvider.getItemForFile(path.join(routesDir, 'about/team/+page.svelte'));
+            const parent = item && routesProvider.getParent(item);
+            assert.strictEqual(parent?.routePath, path.join('about', 'team'));
+            assert.strictEqual(routesProvider.getParent(parent!)?.routePath, 'about');
+        } finally {
+            routesProvider.toggleViewType();
+        }
+    });
+
+    test('Should not find files outside the routes', async () => {
+        assert.strictEqual(await routesProvider.getItemForFile(path.join(routesDir, '../app.html')), undefined);
+    });
+});
+
+suite('Route URL Test Suite', () => {
+    let routesProvider: RoutesProvider;
+
+    suiteSetup(async () => {
+        routesProvider = new RoutesProvider(path.resolve(__dirname, '../../test-fixtures'));
+    });
+
+    function paramOf(routeId: string, name: string) {
+        return RouteUtils.getRouteParams(routeId).find(param => param.name === name)!;
+    }
+
+    suite('Resolving', () => {
+        test('Should fill in params and drop groups', () => {
+            assert.strictEqual(RouteMatchingUtils.resolveRoute('/(app)/blog/[slug]', { slug: 'hello' }), '/blog/hello');
+            assert.strictEqual(RouteMatchingUtils.resolveRoute('/mixed/[lang]-[region]', { lang: 'en', region: 'us' }), '/mixed/en-us');
+        });
+
+        test('Should leave out empty optional and rest params', () => {
+            assert.strictEqual(RouteMatchingUtils.resolveRoute('/docs/[[lang]]/intro', {}), '/docs/intro');
+            assert.strictEqual(RouteMatchingUtils.resolveRoute('/files/[...path]', { path: '' }), '/files');
+            assert.strictEqual(RouteMatchingUtils.resolveRoute('/files/[...path]', { path: 'a/b/c' }), '/files/a/b/c');
+        });
+
+        test('Should throw on a missing required param', () => {
+            assert.throws(() => RouteMatchingUtils.resolveRoute('/blog/[slug]', {}), /Missing parameter 'slug'/);
+        });
+
+        test('Should decode escaped characters', () => {
+            assert.strictEqual(RouteMatchingUtils.resolveRoute('/mixed/time[x+3a]now', {}), '/mixed/time:now');
+        });
+
+        test('Should encode param values for URLs', () => {
+            const resolve = (routeId: string, params: Record<string, string>) =>
+                RouteMatchingUtils.resolveRoute(routeId, RouteMatchingUtils.encodeParams(routeId, params));
+            assert.strictEqual(resolve('/blog/[slug]', { slug: 'a b?#/c' }), '/blog/a%20b%3F%23%2Fc');
+            assert.strictEqual(resolve('/files/[...path]', { path: 'a b/c#d' }), '/files/a%20b/c%23d');
+            assert.strictEqual(resolve('/docs/[[lang]]', {}), '/docs');
+        });
+    });
+
+    suite('Validation', () => {
+        test('Should require values for required params only', () => {
+            const matchers = routesProvider.getParamMatchers();
+            assert.ok(RouteParamPrompt.validate(paramOf('/blog/[slug]', 'slug'), '', matchers));
+            assert.strictEqual(RouteParamPrompt.validate(paramOf('/docs/[[lang]]', 'lang'), '', matchers), null);
+            assert.strictEqual(RouteParamPrompt.validate(paramOf('/files/[...path]', 'path'), '', matchers), null);
+        });
+
+        test('Should only allow slashes in rest params', () => {
+            const matchers = routesProvider.getParamMatchers();
+            assert.strictEqual(RouteParamPrompt.validate(paramOf('/files/[...path]', 'path'), 'a/b', matchers), null);
+            assert.ok(RouteParamPrompt.validate(paramOf('/blog/[slug]', 'slug'), 'a/b', matchers));
+            assert.ok(RouteParamPrompt.validate(paramOf('/files/[...path]', 'path'), '/a', matchers));
+        });
+
+        test('Should check values against the route matcher', () => {
+            const matchers = routesProvider.getParamMatchers();
+            assert.strictEqual(RouteParamPrompt.validate(paramOf('/tags/[tag=slug]', 'tag'), 'hello-world', matchers), null);
+            assert.ok(RouteParamPrompt.validate(paramOf('/tags/[tag=slug]', 'tag'), 'Hello_World', matchers));
+        });
+    });
+});
+
+suite('Route Origin Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let projectDir: string;
+    let paramPrompt: RouteParamPrompt;
+
+    suiteSetup(async () => {
+        projectDir = path.resolve(__dirname, '../../test-fixtures/base-path');
+        routesProvider = new RoutesProvider(projectDir);
+
+        const values = new Map<string, unknown>();
+        paramPrompt = new RouteParamPrompt({
+            keys: () => [...values.keys()],
+            get: (key: string, defaultValue?: unknown) => values.get(key) ?? defaultValue,
+            update: async (key: string, value: unknown) => { values.set(key, value); }
+        } as vscode.Memento);
+    });
+
+    function routeItem(routePath: string, file: string): RouteItem {
+        return new RouteItem(routePath, routePath, path.join(projectDir, 'src/routes', file), [], 5173, 'static');
+    }
+
+    test('Should use the configured origin', () => {
+        const monorepoDir = path.resolve(__dirname, '../../test-fixtures/monorepo');
+        const projects = ProjectUtils.resolveProjects(monorepoDir, {
+            origin: 'https://dev.example.com:8443/',
+            projects: ['apps/web', { root: 'apps/docs', port: 8444 }, { root: 'apps/docs', origin: 'http://docs.test' }]
+        });
+        assert.deepStrictEqual(
+            projects.map(project => [project.getOrigin(), project.port]),
+            [['https://dev.example.com:8443', 8443], ['https://dev.example.com:8444', 8444], ['http://docs.test', 80]]
+        );
+    });
+
+    test('Should default to localhost', () => {
+        assert.strictEqual(routesProvider.getActiveProject().getOrigin(), 'http://localhost:5173');
+    });
+
+    test('Should apply the base path and trailingSlash options', async () => {
+        assert.strictEqual(await routesProvider.getRouteUrl(routeItem('/', '+page.svelte'), paramPrompt), 'http://localhost:5173/docs/');
+        assert.strictEqual(
+            await routesProvider.getRouteUrl(routeItem('legacy', 'legacy/+page.svelte'), paramPrompt),
+            'http://localhost:5173/docs/legacy'
+        );
+        assert.strictEqual(
+            await routesProvider.getRouteUrl(routeItem('api', 'api/+server.ts'), paramPrompt),
+            'http://localhost:5173/docs/api'
+        );
+    });
+
+    test('Should preview routes at their URL, keyed by project and route', async () => {
+        const preview = new RoutePreviewPanel(routesProvider, paramPrompt);
+        try {
+            assert.deepStrictEqual(await preview.getTarget(routeItem('legacy', 'legacy/+page.svelte')), {
+                url: 'http://localhost:5173/docs/legacy',
+                routeKey: `${projectDir}:/legacy`
+            });
+            assert.strictEqual(
+                preview.getRouteKey(routeItem(path.join('guides', '[slug]'), 'guides/[slug]/+page.svelte')),
+                `${projectDir}:/guides/[slug]`
+            );
+            assert.strictEqual(preview.getRouteKey(routeItem('/', '+page.svelte')), `${projectDir}:/`);
+        } finally {
+            preview.dispose();
+        }
+    });
+
+    test('Should follow page, load and endpoint files to their route', () => {
+        const preview = new RoutePreviewPanel(routesProvider, paramPrompt);
+        const routesDir = path.join(projectDir, 'src/routes');
+        try {
+            assert.deepStrictEqual(preview.getRouteForFile(path.join(routesDir, 'legacy/+page.server.ts')), {
+                filePath: path.join(routesDir, 'legacy/+page.server.ts'),
+                routePath: '/legacy'
+            });
+            assert.strictEqual(preview.getRouteForFile(path.join(routesDir, 'api/+server.ts'))?.routePath, '/api');
+            assert.strictEqual(
+                preview.getRouteKey(preview.getRouteForFile(path.join(routesDir, 'legacy/+page.ts'))!),
+                preview.getRouteKey(routeItem('legacy', 'legacy/+page.svelte')),
+                'files of one route share a key'
+            );
+            assert.strictEqual(preview.getRouteForFile(path.join(routesDir, '+layout.ts')), undefined);
+            assert.strictEqual(preview.getRouteForFile(path.join(projectDir, 'svelte.config.js')), undefined);
+        } finally {
+            preview.dispose();
+        }
+    });
+
+    test('Should format route URLs from param values', async () => {
+        const project = routesProvider.getActiveProject();
+        assert.strictEqual(
+            await routesProvider.formatRouteUrl(project, '/guides/[slug]', { slug: ':slug' }),
+            'http://localhost:5173/docs/guides/:slug/'
+        );
+        assert.strictEqual(await routesProvider.formatRouteUrl(project, '/legacy', {}), 'http://localhost:5173/docs/legacy');
+    });
+
+    test('Should let the last module setting trailingSlash win', () => {
+        const routesDir = path.join(projectDir, 'src/routes');
+        const layout = path.join(routesDir, '+layout.ts');
+        assert.strictEqual(PageOptionsUtils.resolveTrailingSlash([]), 'never');
+        assert.strictEqual(PageOptionsUtils.resolveTrailingSlash([layout]), 'always');
+        assert.strictEqual(
+            PageOptionsUtils.resolveTrailingSlash([layout, path.join(routesDir, 'legacy/+page.server.ts')]),
+            'ignore'
+        );
+        assert.strictEqual(
+            PageOptionsUtils.resolveTrailingSlash([layout, path.join(routesDir, 'legacy/+page.ts')]),
+            'never'
+        );
+    });
+
+    test('Should add or remove the trailing slash', () => {
+        assert.strictEqual(PageOptionsUtils.applyTrailingSlash('/guides/intro', 'always'), '/guides/intro/');
+        assert.strictEqual(PageOptionsUtils.applyTrailingSlash('/guides/intro/', 'never'), '/guides/intro');
+        assert.strictEqual(PageOptionsUtils.applyTrailingSlash('/docs/', 'ignore'), '/docs');
+        assert.strictEqual(PageOptionsUtils.applyTrailingSlash('/', 'never'), '/');
+    });
+
+    test('Should find the route a file belongs to', () => {
+        const routesDir = path.join(projectDir, 'src/routes');
+        assert.strictEqual(routesProvider.getRouteIdForFile(path.join(routesDir, '+layout.ts')), '/');
+        assert.strictEqual(routesProvider.getRouteIdForFile(path.join(routesDir, 'guides/[slug]/+page.svelte')), '/guides/[slug]');
+        assert.strictEqual(routesProvider.getRouteIdForFile(path.join(routesDir, 'guides/[slug]/Toc.svelte')), undefined);
+        assert.strictEqual(routesProvider.getRouteIdForFile(path.join(projectDir, 'src/lib/+page.svelte')), undefined);
+    });
+
+    test('Should strip the base path from pasted URLs', async () => {
+        const project = routesProvider.getActiveProject();
+        assert.strictEqual(routesProvider.stripBasePath(project, '/docs/guides/intro/'), '/guides/intro/');
+        assert.strictEqual(routesProvider.stripBasePath(project, '/docs'), '/');
+        assert.strictEqual(routesProvider.stripBasePath(project, '/docsite'), '/docsite');
+
+        const result = await routesProvider.findMatchingRoute(routesProvider.stripBasePath(project, '/docs/legacy/'), project);
+        assert.strictEqual(result, path.join(projectDir, 'src/routes/legacy/+page.svelte'));
+    });
+});
+
+suite('Dev Server Test Suite', () => {
+    let projectDir: string;
+    let server: http.Server;
+    let port: number;
+
+    suiteSetup(async () => {
+        projectDir = path.resolve(__dirname, '../../test-fixtures/base-path');
+
+        // Answers like the Vite dev server of the project
+        const packageJson = fs.readFileSync(path.join(projectDir, 'package.json'), 'utf8');
+        server = http.createServer((request, response) => {
+            if (request.url === '/@vite/client') {
+                response.writeHead(200, { 'Content-Type': 'text/javascript' });
+                response.end('export {};');
+            } else if (request.url === '/package.json?import') {
+                response.writeHead(200, { 'Content-Type': 'text/javascript' });
+                response.end(`export default JSON.parse(${JSON.stringify(packageJson)})`);
+            } else {
+                response.writeHead(404);
+                response.end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    suiteTeardown(() => {
+        server.close();
+    });
+
+    test('Should read the port from vite.config', () => {
+        assert.strictEqual(SvelteConfigUtils.readViteServerOptions(projectDir).port, 5200);
+    });
+
+    test('Should recognize a Vite dev server', async () => {
+        assert.strictEqual(await DevServerDetector.probe(`http://localhost:${port}`), true);
+        assert.strictEqual(await DevServerDetector.probe(`http://localhost:${port + 1}`), false);
+    });
+
+    test('Should detect the dev server of a project', async () => {
+        const detector = new DevServerDetector();
+        const project = new SvelteProject(projectDir, 'base-path', port);
+        try {
+            assert.deepStrictEqual(await detector.detect(project), { origin: `http://localhost:${port}`, port });
+            assert.notDeepStrictEqual(await detector.detect(project, new Set([port])), { origin: `http://localhost:${port}`, port });
+        } finally {
+            detector.dispose();
+        }
+    });
+
+    test('Should not take the dev server of another app', async () => {
+        const otherApp = new SvelteProject(path.resolve(__dirname, '../../test-fixtures/monorepo/apps/web'), 'web', port);
+
+        assert.strictEqual(await DevServerDetector.probe(`http://localhost:${port}`, new SvelteProject(projectDir, 'base-path', port)), true);
+        assert.strictEqual(await DevServerDetector.probe(`http://localhost:${port}`, otherApp), false);
+    });
+
+    test('Should find the URL printed by vite dev', () => {
+        const output = '\u001b[32m\u001b[1mVITE\u001b[22m v5.4.0\u001b[39m  ready in 812 ms\r\n\r\n'
+            + '  \u001b[32m➜\u001b[39m  \u001b[1mLocal\u001b[22m:   \u001b[36mhttp://localhost:\u001b[1m5174\u001b[22m/\u001b[39m\r\n';
+        assert.strictEqual(DevServerDetector.parseLocalUrl(output), 'http://localhost:5174');
+        assert.strictEqual(DevServerDetector.parseLocalUrl('> vite dev'), null);
+    });
+});
+
+suite('Route Conflict Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let routesDir: string;
+
+    suiteSetup(async () => {
+        const projectDir = path.resolve(__dirname, '../../test-fixtures/conflicts');
+        routesDir = path.join(projectDir, 'src/routes');
+        routesProvider = new RoutesProvider(projectDir);
+        await routesProvider.getActiveProject().getRouteIndex().ready();
+    });
+
+    function problemsOf(file: string) {
+        return routesProvider.getRouteProblems(routesProvider.getActiveProject())
+            .filter(problem => problem.filePath === path.join(routesDir, file))
+            .map(problem => [problem.kind, problem.otherRouteId]);
+    }
+
+    test('Should normalize route ids like SvelteKit', () => {
+        assert.strictEqual(RouteConflictUtils.normalizeRouteId('/(app)/blog/[slug]'), '//blog/<*>');
+        assert.strictEqual(RouteConflictUtils.normalizeRouteId('/[[lang=locale]]/[...rest]'), '/<?locale>/<...*>');
+        assert.strictEqual(RouteConflictUtils.normalizeRouteId('/a[x+2f]b'), '/a%2fb');
+    });
+
+    test('Should report routes in different groups with the same path', () => {
+        assert.deepStrictEqual(problemsOf('(a)/about/+page.svelte'), [['conflict', '/(b)/about']]);
+        assert.deepStrictEqual(problemsOf('(b)/about/+page.svelte'), [['conflict', '/(a)/about']]);
+    });
+
+    test('Should report sibling params and optional params', () => {
+        assert.deepStrictEqual(problemsOf('items/[slug]/+server.ts'), [['conflict', '/items/[id]']]);
+        assert.deepStrictEqual(problemsOf('docs/[[lang]]/+page.svelte'), [['conflict', '/docs']]);
+    });
+
+    test('Should not report params with different matchers', () => {
+        assert.deepStrictEqual(problemsOf('blog/[slug]/+page.svelte'), []);
+        assert.deepStrictEqual(problemsOf('blog/[slug=integer]/+page.svelte'), []);
+    });
+
+    test('Should report unreachable routes on every page file', () => {
+        assert.deepStrictEqual(problemsOf('[...all]/+page.svelte'), [['unreachable', '/[a]/[...rest]']]);
+        assert.deepStrictEqual(problemsOf('[...all]/+page.ts'), []);
+        assert.deepStrictEqual(problemsOf('[a]/[...rest]/+page.svelte'), []);
+    });
+
+    test('Should find problems once per change of the routes', () => {
+        const project = routesProvider.getActiveProject();
+        const problems = routesProvider.getRouteProblems(project);
+        assert.strictEqual(routesProvider.getRouteProblems(project), problems);
+
+        project.getRouteIndex().version++;
+        const found = routesProvider.getRouteProblems(project);
+        assert.notStrictEqual(found, problems);
+        assert.deepStrictEqual(found, problems);
+    });
+
+    test('Should flag routes with problems in the tree', async () => {
+        const item = await routesProvider.getItemForFile(path.join(routesDir, '(a)/about/+page.svelte'));
+        assert.strictEqual((item?.iconPath as vscode.ThemeIcon).id, 'warning');
+        assert.match(String(item?.tooltip), /conflict with each other/);
+
+        const other = await routesProvider.getItemForFile(path.join(routesDir, 'blog/[slug]/+page.svelte'));
+        assert.notStrictEqual((other?.iconPath as vscode.ThemeIcon).id, 'warning');
+    });
+});
+
+suite('Route Lint Test Suite', () => {
+    let routesDir: string;
+    let problems: RouteLintProblem[];
+
+    suiteSetup(async () => {
+        routesDir = path.resolve(__dirname, '../../test-fixtures/lint/src/routes');
+        const index = new RouteIndex(routesDir);
+        await index.ready();
+        problems = RouteLintUtils.lintRoutes(index, routesDir);
+        index.dispose();
+    });
+
+    function problemsOf(file: string) {
+        return problems
+            .filter(problem => problem.filePath === path.join(routesDir, file))
+            .map(problem => [problem.code, ...problem.fixes.map(fix => `${fix.kind} ${path.relative(routesDir, fix.target)}`)]);
+    }
+
+    test('Should suggest the route file a misspelled file was meant to be', () => {
+        assert.strictEqual(RouteLintUtils.suggestFileName('+Page.svelte'), '+page.svelte');
+        assert.strictEqual(RouteLintUtils.suggestFileName('+page.server.svelte'), '+page.svelte');
+        assert.strictEqual(RouteLintUtils.suggestFileName('+server.svelte'), '+page.svelte');
+        assert.strictEqual(RouteLintUtils.suggestFileName('+LAYOUT.SERVER.TS'), '+layout.server.ts');
+        assert.strictEqual(RouteLintUtils.suggestFileName('+page.jsx'), null);
+    });
+
+    test('Should report reserved file names with a rename', () => {
+        assert.deepStrictEqual(problemsOf('case/+Page.svelte'), [['reserved-name', `rename ${path.join('case', '+page.svelte')}`]]);
+        assert.deepStrictEqual(problemsOf('server-component/+page.server.svelte'), [
+            ['reserved-name', `rename ${path.join('server-component', '+page.svelte')}`]
+        ]);
+    });
+
+    test('Should report route files without a plus', () => {
+        assert.deepStrictEqual(problemsOf('plus/page.svelte'), [['missing-plus', `rename ${path.join('plus', '+page.svelte')}`]]);
+    });
+
+    test('Should leave modules colocated with route files alone', () => {
+        assert.deepStrictEqual(problemsOf('colocated/server.ts'), []);
+        assert.deepStrictEqual(problemsOf('colocated/layout.ts'), []);
+        assert.deepStrictEqual(problemsOf('colocated/error.svelte'), []);
+        assert.deepStrictEqual(problemsOf('colocated/page@.svelte'), []);
+        assert.deepStrictEqual(problemsOf('modules/page.ts'), []);
+        assert.deepStrictEqual(problemsOf('modules/server.js'), []);
+        assert.deepStrictEqual(problemsOf('modules/layout.server.ts'), []);
+    });
+
+    test('Should move legacy route files into route folders', () => {
+        assert.deepStrictEqual(problemsOf('legacy/index.svelte'), [['legacy-route-file', `rename ${path.join('legacy', '+page.svelte')}`]]);
+        assert.deepStrictEqual(problemsOf('legacy/[slug].svelte'), [
+            ['legacy-route-file', `move ${path.join('legacy', '[slug]', '+page.svelte')}`]
+        ]);
+        assert.deepStrictEqual(problemsOf('legacy/[slug].json.ts'), [
+            ['legacy-route-file', `move ${path.join('legacy', '[slug].json', '+server.ts')}`]
+        ]);
+    });
+
+    test('Should report files SvelteKit allows only once per route', () => {
+        assert.deepStrictEqual(problemsOf('duplicates/+page.ts'), [['duplicate-route-file']]);
+        assert.deepStrictEqual(problemsOf('duplicates/+page.js'), [['duplicate-route-file']]);
+        assert.deepStrictEqual(problemsOf('duplicates/+page.svelte'), []);
+    });
+
+    test('Should report page modules without a page component', () => {
+        assert.deepStrictEqual(problemsOf('load-only/+page.ts'), [
+            ['page-without-component', `create ${path.join('load-only', '+page.svelte')}`]
+        ]);
+    });
+
+    test('Should report layouts without pages', () => {
+        assert.deepStrictEqual(problemsOf('api/+layout.server.ts'), [['layout-without-pages']]);
+        assert.match(problems.find(problem => problem.code === 'layout-without-pages')!.message, /"\+server\.ts" is an endpoint/);
+        assert.deepStrictEqual(problemsOf('api/+server.ts'), []);
+        assert.deepStrictEqual(problemsOf('shell/+layout.svelte'), []);
+    });
+
+    test('Should leave other files in route folders alone', () => {
+        assert.deepStrictEqual(problemsOf('components/Header.svelte'), []);
+        assert.deepStrictEqual(problemsOf('components/utils.ts'), []);
+        assert.deepStrictEqual(problemsOf('+page.svelte'), []);
+    });
+});
+
+suite('Route Link Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let projectDir: string;
+
+    suiteSetup(async () => {
+        projectDir = path.resolve(__dirname, '../../test-fixtures/base-path');
+        routesProvider = new RoutesProvider(projectDir);
+    });
+
+    function linksOf(source: string) {
+        return RouteLinkUtils.extractLinks(source).map(link => [link.kind, link.path, link.dynamic]);
+    }
+
+    test('Should extract links from attributes, goto and redirect', () => {
+        assert.deepStrictEqual(linksOf('<a href="/blog">Blog</a><form method="post" action=\'/login\'>'), [
+            ['href', '/blog', false],
+            ['action', '/login', false]
+        ]);
+        assert.deepStrictEqual(linksOf('goto("/settings"); redirect(307, \'/login\'); throw redirect(303, `/`);'), [
+            ['goto', '/settings', false],
+            ['redirect', '/login', false],
+            ['redirect', '/', false]
+        ]);
+        assert.deepStrictEqual(linksOf('<a href={"/about"}>'), [['href', '/about', false]]);
+    });
+
+    test('Should stop at the query, hash or first interpolation', () => {
+        assert.deepStrictEqual(linksOf('<a href="/blog?page=2#top">'), [['href', '/blog', false]]);
+        assert.deepStrictEqual(linksOf('<a href="/blog/{post.slug}">'), [['href', '/blog/', true]]);
+        assert.deepStrictEqual(linksOf('goto(`/blog/${slug}/edit`)'), [['goto', '/blog/', true]]);
+        // Braces are literal characters in JavaScript strings
+        assert.deepStrictEqual(linksOf('goto("/blog/{slug}")'), [['goto', '/blog/{slug}', false]]);
+    });
+
+    test('Should skip external and relative links', () => {
+        assert.deepStrictEqual(linksOf('<a href="https://svelte.dev">'), []);
+        assert.deepStrictEqual(linksOf('<a href="//cdn.example.com/x.js">'), []);
+        assert.deepStrictEqual(linksOf('<form action="?/login">'), []);
+        assert.deepStrictEqual(linksOf('<a href={base + "/about"}>'), []);
+    });
+
+    test('Should keep the whole path of links with interpolations', () => {
+        const source = 'goto(`/blog/${post.slug}/edit?from=${from}`)';
+        const [link] = RouteLinkUtils.extractLinks(source);
+        assert.strictEqual(link.template, '/blog/*/edit');
+        assert.strictEqual(source.slice(link.start, link.end), '/blog/${post.slug}/edit');
+        assert.strictEqual(RouteLinkUtils.extractLinks('<a href="/{a ? \'x\' : \'y\'}/z">')[0].template, '/*/z');
+    });
+
+    test('Should find the link at an offset', () => {
+        const source = '<a href="/blog">Blog</a>';
+        assert.strictEqual(RouteLinkUtils.findLinkAt(source, source.indexOf('blog'))?.path, '/blog');
+        assert.strictEqual(RouteLinkUtils.findLinkAt(source, source.indexOf('Blog')), undefined);
+    });
+
+    test('Should match routes with their params', async () => {
+        const match = await routesProvider.matchRoute('/guides/intro');
+        assert.strictEqual(match?.routeId, '/guides/[slug]');
+        assert.deepStrictEqual(match?.params, { slug: 'intro' });
+        assert.strictEqual(await routesProvider.matchRoute('/gudies/intro'), null);
+    });
+
+    test('Should rank and parse routes once per change of the routes', async () => {
+        const project = routesProvider.getActiveProject();
+        const routes = await routesProvider.listRoutes(project);
+        assert.strictEqual(await routesProvider.listRoutes(project), routes);
+        assert.strictEqual(routesProvider.parseRouteId(project, '/[slug]'), routesProvider.parseRouteId(project, '/[slug]'));
+
+        project.getRouteIndex().version++;
+        const ranked = await routesProvider.listRoutes(project);
+        assert.notStrictEqual(ranked, routes);
+        assert.deepStrictEqual(ranked.map(route => route.id), routes.map(route => route.id));
+    });
+
+    test('Should find static assets', () => {
+        const project = routesProvider.getActiveProject();
+        assert.strictEqual(routesProvider.findStaticAsset(project, '/favicon.png'), path.join(projectDir, 'static/favicon.png'));
+        assert.strictEqual(routesProvider.findStaticAsset(project, '/missing.png'), null);
+        assert.strictEqual(routesProvider.findStaticAsset(project, '/../svelte.config.js'), null);
+    });
+
+    test('Should report links no route or static file serves', async () => {
+        const validator = new LinkValidator(routesProvider);
+        try {
+            const filePath = path.join(projectDir, 'src/lib/Nav.svelte');
+            assert.strictEqual(await validator.validateFile(filePath), 3);
+
+            const diagnostics = vscode.languages.getDiagnostics(vscode.Uri.file(filePath));
+            assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.range.start.line, diagnostic.message]), [
+                [7, 'No route or static file matches "/docs/gudies/intro"'],
+                [10, '"/about" is outside the base path "/docs"'],
+                [12, 'No route or static file matches "/docs/settings"']
+            ]);
+            assert.strictEqual(diagnostics[0].range.start.character, '<a href="'.length);
+
+            // Only the query is interpolated, the path can still be checked
+            assert.strictEqual(await validator.validateFile(path.join(projectDir, 'src/lib/auth.ts')), 1);
+        } finally {
+            validator.dispose();
+        }
+    });
+});
+
+suite('Route Link Provider Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let linkProvider: RouteLinkProvider;
+    let projectDir: string;
+    let document: vscode.TextDocument;
+    const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+    suiteSetup(async () => {
+        projectDir = path.resolve(__dirname, '../../test-fixtures/base-path');
+        routesProvider = new RoutesProvider(projectDir);
+        linkProvider = new RouteLinkProvider(routesProvider);
+        document = await vscode.workspace.openTextDocument(path.join(projectDir, 'src/lib/Nav.svelte'));
+    });
+
+    async function hoverAt(text: string) {
+        const position = document.positionAt(document.getText().indexOf(text) + 1);
+        const hover = await linkProvider.provideHover(document, position);
+        const [contents] = hover?.contents ?? [];
+        return contents instanceof vscode.MarkdownString ? contents.value : undefined;
+    }
+
+    test('Should link paths to the files serving them', async () => {
+        const links = await linkProvider.provideDocumentLinks(document, token);
+        assert.deepStrictEqual(
+            links.map(link => [document.getText(link.range), path.relative(projectDir, link.target!.fsPath).replace(/\\/g, '/')]),
+            [
+                ['/docs/favicon.png', 'static/favicon.png'],
+                ['/docs/guides/intro', 'src/routes/guides/[slug]/+page.svelte'],
+                ['/docs/legacy', 'src/routes/legacy/+page.svelte'],
+                ['/docs/guides/{slug}', 'src/routes/guides/[slug]/+page.svelte']
+            ]
+        );
+    });
+
+    test('Should show the route and its params on hover', async () => {
+        const hover = String(await hoverAt('/docs/guides/intro'));
+        assert.match(hover, /`\/guides\/\[slug\]`/);
+        assert.match(hover, /src\/routes\/guides\/\[slug\]\/\+page\.svelte/);
+        assert.match(hover, /\| slug \| `intro` \|/);
+
+        assert.match(String(await hoverAt('/docs/guides/{slug}')), /\| slug \| _dynamic_ \|/);
+        assert.match(String(await hoverAt('/docs/favicon.png')), /Static file/);
+    });
+
+    test('Should not link or hover paths nothing serves', async () => {
+        assert.strictEqual(await hoverAt('/docs/gudies/intro'), undefined);
+        assert.strictEqual(await hoverAt('/about'), undefined);
+    });
+});
+
+suite('Route Completion Test Suite', () => {
+    const workspaceDir = path.resolve(__dirname, '../../test-fixtures');
+    const basePathDir = path.join(workspaceDir, 'base-path');
+
+    async function completionsAt(filePath: string, line: number) {
+        const document = await vscode.workspace.openTextDocument(filePath);
+        const text = document.lineAt(line).text;
+        // Right before the closing quote of the link
+        const position = new vscode.Position(line, text.search(/\/["']/) + 1);
+        const provider = new RouteCompletionProvider(new RoutesProvider(path.dirname(path.dirname(path.dirname(filePath)))));
+        return (await provider.provideCompletionItems(document, position)) ?? [];
+    }
+
+    function labelsOf(items: vscode.CompletionItem[]) {
+        return items.map(item => item.label as string).sort();
+    }
+
+    test('Should detect links being typed', () => {
+        assert.strictEqual(RouteLinkUtils.findLinkPrefix('<a href="/blog/'), '/blog/');
+        assert.strictEqual(RouteLinkUtils.findLinkPrefix('<a class="x" href={`/blog/po'), '/blog/po');
+        assert.strictEqual(RouteLinkUtils.findLinkPrefix('redirect(303, "/'), '/');
+        assert.strictEqual(RouteLinkUtils.findLinkPrefix('<a href="/blog/">'), null);
+        assert.strictEqual(RouteLinkUtils.findLinkPrefix('goto(`/blog/${slug}/'), null);
+        assert.strictEqual(RouteLinkUtils.findLinkPrefix('<a title="/blog/'), null);
+    });
+
+    test('Should complete top level segments without groups', async () => {
+        const labels = labelsOf(await completionsAt(path.join(workspaceDir, 'src/lib/Links.svelte'), 0));
+        assert.ok(labels.includes('about'));
+        assert.ok(labels.includes('login'), 'routes in groups are offered');
+        assert.ok(!labels.includes('(auth)'), 'groups are hidden');
+    });
+
+    test('Should complete below groups', async () => {
+        assert.deepStrictEqual(labelsOf(await completionsAt(path.join(workspaceDir, 'src/lib/Links.svelte'), 1)), ['settings']);
+    });
+
+    test('Should offer params as snippets with their matchers', async () => {
+        const items = await completionsAt(path.join(workspaceDir, 'src/lib/Links.svelte'), 2);
+        assert.deepStrictEqual(labelsOf(items), ['[id=integer]', '[slug]']);
+
+        const id = items.find(item => item.label === '[id=integer]')!;
+        assert.strictEqual((id.insertText as vscode.SnippetString).value, '${1:id}');
+        assert.strictEqual(id.detail, '/products/[id=integer] · id must match "integer"');
+    });
+
+    test('Should follow typed param values, optional params and rest params', async () => {
+        const linksPath = path.join(workspaceDir, 'src/lib/Links.svelte');
+        assert.deepStrictEqual(labelsOf(await completionsAt(linksPath, 3)), ['embed', 'plain', 'root']);
+        assert.deepStrictEqual(labelsOf(await completionsAt(linksPath, 4)), ['[[lang]]']);
+        assert.deepStrictEqual(labelsOf(await completionsAt(linksPath, 5)), ['edit']);
+    });
+
+    test('Should complete the base path first', async () => {
+        const filePath = path.join(basePathDir, 'src/lib/Complete.svelte');
+        const [base] = await completionsAt(filePath, 0);
+        assert.strictEqual(base.label, 'docs');
+        assert.strictEqual(base.detail, 'kit.paths.base');
+        assert.deepStrictEqual(labelsOf(await completionsAt(filePath, 1)), ['api', 'guides', 'legacy']);
+    });
+});
+
+suite('Route Helper Test Suite', () => {
+    const basePathDir = path.resolve(__dirname, '../../test-fixtures/base-path');
+    const options = { base: '', routesDir: 'src/routes', matcherImports: { integer: '../params/integer' } };
+
+    test('Should type the params of each route', () => {
+        const source = RouteHelperUtils.generate([
+            { id: '/', trailingSlash: 'never' },
+            { id: '/(app)/org/[orgId]/projects/[id=integer]', trailingSlash: 'never' },
+            { id: '/[[lang]]/docs/[...path]', trailingSlash: 'never' },
+            { id: '/tags/[tag=unknown]', trailingSlash: 'never' }
+        ], options);
+
+        assert.ok(source.includes("import type { match as match_integer } from '../params/integer';"));
+        assert.ok(source.includes("\t| '/(app)/org/[orgId]/projects/[id=integer]'"));
+        assert.ok(source.includes("\t'/': Record<string, never>;"));
+        assert.ok(source.includes("\t'/(app)/org/[orgId]/projects/[id=integer]': { orgId: string; id: MatcherParam<typeof match_integer> };"));
+        assert.ok(source.includes("\t'/[[lang]]/docs/[...path]': { lang?: string; path?: string };"));
+        assert.ok(source.includes("\t'/tags/[tag=unknown]': { tag: string };"), 'missing matchers type params as strings');
+    });
+
+    test('Should build paths without groups and with escapes', () => {
+        const source = RouteHelperUtils.generate([
+            { id: '/(app)/org/[orgId]/projects/[id=integer]', trailingSlash: 'always' },
+            { id: '/img-[w]x[h]', trailingSlash: 'never' },
+            { id: '/a[x+2f]b', trailingSlash: 'never' }
+        ], options);
+
+        assert.ok(source.includes("(params) => join(['org', params.orgId, 'projects', params.id], true),"));
+        assert.ok(source.includes('(params) => join([`img-${params.w}x${params.h}`]),'));
+        assert.ok(source.includes("() => join(['a%2Fb']),"));
+    });
+
+    test('Should write the module of a project only when it changes', async () => {
+        const output = path.join(basePathDir, 'src/lib/routes.generated.ts');
+        const generator = new RouteHelperGenerator(new RoutesProvider(basePathDir));
+        try {
+            assert.deepStrictEqual(await generator.generate(), [output]);
+            const source = fs.readFileSync(output, 'utf8');
+            assert.ok(source.includes("const base = '/docs';"));
+            assert.ok(source.includes("\t'/guides/[slug]': (params) => join(['guides', params.slug], true),"), 'trailingSlash is inherited from layouts');
+            assert.ok(source.includes("\t'/api': () => join(['api']),"), 'endpoints are included');
+
+            const { mtimeMs } = fs.statSync(output);
+            await new Promise(resolve => setTimeout(resolve, 20));
+            await generator.generate();
+            assert.strictEqual(fs.statSync(output).mtimeMs, mtimeMs);
+        } finally {
+            generator.dispose();
+            fs.rmSync(output, { force: true });
+        }
+    });
+});
+
+suite('Route Export Test Suite', () => {
+    const workspaceDir = path.resolve(__dirname, '../../test-fixtures');
+    const routesProvider = new RoutesProvider(workspaceDir);
+    const manifest = () => routesProvider.getRouteManifest(routesProvider.getProjects()[0]);
+
+    test('Should describe each route with its params, files and layouts', async () => {
+        const { routes } = await manifest();
+        const embed = routes.find(route => route.id === '/layouts/(app)/item/[id]/embed');
+        assert.deepStrictEqual(embed, {
+            id: '/layouts/(app)/item/[id]/embed',
+            pattern: '/layouts/item/:id/embed',
+            params: [{ name: 'id', matcher: null, optional: false, rest: false }],
+            matchers: [],
+            files: [{ type: 'page', path: 'src/routes/layouts/(app)/item/[id]/embed/+page@(app).svelte' }],
+            layouts: ['/', '/layouts', '/layouts/(app)'],
+            groups: ['(app)'],
+            reset: '(app)'
+        });
+
+        const product = routes.find(route => route.id === '/products/[id=integer]');
+        assert.deepStrictEqual(product?.matchers, ['integer']);
+        assert.ok(routes.findIndex(route => route.id === '/blog/2-second') < routes.findIndex(route => route.id === '/blog/10-tenth'));
+    });
+
+    test('Should leave out groups, endpoints and error pages', async () => {
+        const { routes } = RouteExportUtils.filter(await manifest(), { groups: false, endpoints: false, errorPages: false });
+        const ids = routes.map(route => route.id);
+        assert.ok(!ids.includes('/layouts/(app)'), 'group directories are left out');
+        assert.ok(ids.includes('/layouts/(app)/item/[id]/embed'), 'routes in groups are kept');
+        assert.ok(!ids.some(route => route.startsWith('/api')), 'endpoint-only routes are left out');
+        assert.deepStrictEqual(
+            routes.find(route => route.id === '/')?.files.map(file => file.type),
+            ['layout', 'page']
+        );
+    });
+
+    test('Should write tables and diagrams', async () => {
+        const routes = await manifest();
+
+        const markdown = RouteExportUtils.format(routes, 'markdown').split('\n');
+        assert.strictEqual(markdown[0], '| Route | URL | Params | Files | Layouts |');
+        assert.ok(markdown.includes('| `/products/[id=integer]` | `/products/:id` | `id=integer` | `+page.svelte` | `/`, `/products` |'));
+
+        const csv = RouteExportUtils.format(routes, 'csv').split('\n');
+        assert.strictEqual(csv[0], 'id,pattern,params,matchers,files,layouts,groups,reset');
+        assert.ok(csv.includes('/layouts/(app)/item/[id]/root,/layouts/item/:id/root,id,,src/routes/layouts/(app)/item/[id]/root/+page@.svelte,/,(app),root'));
+
+        const mermaid = RouteExportUtils.format(routes, 'mermaid', { groups: false, endpoints: true, errorPages: true });
+        assert.ok(mermaid.startsWith('graph TD\n'));
+        assert.ok(mermaid.includes('["item/[id]"]'), 'group segments are left out of labels');
+
+        const graphviz = RouteExportUtils.format(routes, 'graphviz');
+        assert.ok(graphviz.includes('\t"/layouts/(app)" -> "/layouts/(app)/item/[id]";'));
+        assert.ok(graphviz.includes('\t"/layouts/(app)/item/[id]" [label="item/[id]"];'));
+    });
+});
+
+suite('Route Graph Test Suite', () => {
+    const workspaceDir = path.resolve(__dirname, '../../test-fixtures');
+
+    async function buildGraph() {
+        const routesProvider = new RoutesProvider(workspaceDir);
+        const project = routesProvider.getProjects()[0];
+        return RouteGraphUtils.build(await routesProvider.getRouteManifest(project), project.root);
+    }
+
+    test('Should lay out the routes tree left to right', async () => {
+        const graph = await buildGraph();
+        const node = (id: string) => graph.nodes.find(candidate => candidate.id === id)!;
+
+        assert.strictEqual(graph.nodes[0].id, '/');
+        assert.strictEqual(node('/layouts/(app)/item').filePath, null, 'folders without route files connect the routes below');
+        assert.ok(graph.edges.some(edge => edge.kind === 'child' && edge.from === '/layouts/(app)/item' && edge.to === '/layouts/(app)/item/[id]'));
+
+        const [embed, plain, root] = ['embed', 'plain', 'root'].map(leaf => node(`/layouts/(app)/item/[id]/${leaf}`));
+        assert.ok(embed.x > node('/layouts/(app)/item/[id]').x);
+        assert.ok(embed.y < plain.y && plain.y < root.y);
+        assert.strictEqual(node('/layouts/(app)/item/[id]').y, plain.y, 'parents are centred on their children');
+        assert.strictEqual(embed.filePath, path.join(workspaceDir, 'src/routes/layouts/(app)/item/[id]/embed/+page@(app).svelte'));
+    });
+
+    test('Should colour nodes by type and draw groups and resets', async () => {
+        const graph = await buildGraph();
+        const typeOf = (id: string) => graph.nodes.find(node => node.id === id)?.type;
+
+        assert.strictEqual(typeOf('/layouts/(app)'), 'group');
+        assert.strictEqual(typeOf('/layouts/(app)/item/[id]'), 'layout', 'directories with only a layout');
+        assert.strictEqual(typeOf('/products/[id=integer]'), 'matcher');
+        assert.strictEqual(typeOf('/blog/[[optional]]'), 'optional');
+
+        const container = graph.containers.find(candidate => candidate.id === '/layouts/(app)')!;
+        const standalone = graph.nodes.find(node => node.id === '/layouts/(app)/standalone')!;
+        assert.ok(container.y < standalone.y && standalone.y < container.y + container.height, 'groups contain their routes');
+
+        const resets = graph.edges.filter(edge => edge.kind === 'reset');
+        assert.ok(resets.some(edge => edge.from === '/layouts/(app)/item/[id]/embed' && edge.to === '/layouts/(app)'));
+        assert.ok(resets.some(edge => edge.from === '/layouts/(app)/standalone' && edge.to === '/'), 'layout resets skip their own layout');
+    });
+});
+
+suite('Route Scaffold Test Suite', () => {
+    test('Should translate URL patterns into route directories', () => {
+        assert.strictEqual(RouteScaffoldUtils.toRouteId('/', '/blog/:slug'), '/blog/[slug]');
+        assert.strictEqual(RouteScaffoldUtils.toRouteId('/', '/docs/*path'), '/docs/[...path]');
+        assert.strictEqual(RouteScaffoldUtils.toRouteId('/', '/:lang?'), '/[[lang]]');
+        assert.strictEqual(RouteScaffoldUtils.toRouteId('/', 'items/:id=integer'), '/items/[id=integer]');
+        assert.strictEqual(RouteScaffoldUtils.toRouteId('/', '/post-:slug'), '/post-[slug]');
+        assert.strictEqual(RouteScaffoldUtils.toRouteId('/(app)/blog', '/:slug/edit'), '/(app)/blog/[slug]/edit');
+        assert.strictEqual(RouteScaffoldUtils.toRouteId('/', '/(marketing)/[[lang]]'), '/(marketing)/[[lang]]', 'SvelteKit syntax is kept');
+        assert.strictEqual(RouteScaffoldUtils.toRouteId('/blog', '/'), '/blog');
+    });
+
+    test('Should reject patterns SvelteKit can\'t route', () => {
+        const validate = (pattern: string, parentId = '/') => RouteScaffoldUtils.validate(parentId, pattern, ['integer']);
+
+        assert.strictEqual(validate('/items/:id=integer'), null);
+        assert.strictEqual(validate('/'), null);
+        assert.ok(validate('/a//b'));
+        assert.ok(validate('/post-:lang?'), 'optional params must be a whole segment');
+        assert.ok(validate('/a/:'));
+        assert.ok(validate('/about?'));
+        assert.strictEqual(validate('../../evil'), 'Segments cannot be . or ..');
+        assert.strictEqual(validate('/.', '/blog'), 'Segments cannot be . or ..');
+        assert.strictEqual(validate('/:id=uuid'), 'There is no "uuid" param matcher');
+        assert.strictEqual(validate('/:slug', '/blog/[slug]'), 'The route already has a "slug" param');
+    });
+
+    test('Should write TypeScript or JavaScript starter files', () => {
+        const render = (typescript: boolean, runes: boolean) => new Map(RouteScaffoldUtils
+            .render(['page', 'pageServer', 'layout', 'server'], { routeId: '/(app)/blog/[slug]', typescript, runes, methods: ['GET', 'DELETE'] })
+            .map(file => [file.fileName, file.content]));
+
+        const ts = render(true, true);
+        assert.deepStrictEqual([...ts.keys()], ['+page.svelte', '+page.server.ts', '+layout.svelte', '+server.ts']);
+        assert.ok(ts.get('+page.svelte')!.includes('let { data, form }: { data: PageData; form: ActionData } = $props();'));
+        assert.ok(ts.get('+page.svelte')!.includes('<h1>/blog/:slug</h1>'));
+        assert.ok(ts.get('+page.server.ts')!.includes('export const load: PageServerLoad = async ({ params }) => {'));
+        assert.ok(ts.get('+layout.svelte')!.includes('{@render children()}'));
+        assert.ok(ts.get('+server.ts')!.includes('export const GET: RequestHandler'));
+        assert.ok(ts.get('+server.ts')!.includes('export const DELETE: RequestHandler'));
+        assert.ok(!ts.get('+server.ts')!.includes('POST'));
+
+        const js = render(false, false);
+        assert.deepStrictEqual([...js.keys()], ['+page.svelte', '+page.server.js', '+layout.svelte', '+server.js']);
+        assert.ok(js.get('+page.svelte')!.startsWith('<script>\n'));
+        assert.ok(js.get('+page.svelte')!.includes('export let data;'));
+        assert.ok(js.get('+page.server.js')!.includes(`/** @type {import('./$types').PageServerLoad} */\nexport async function load({ params }) {`));
+        assert.strictEqual(js.get('+layout.svelte'), '<slot />\n');
+        assert.ok(js.get('+server.js')!.includes('export async function GET({ params }) {'));
+    });
+
+    test('Should fill in project templates and fall back to the built-in files', () => {
+        const templates = {
+            '+page.server.ts': [
+                '{{ typesImport }}',
+                '',
+                '// {{routeId}} ({{path}}) with {{params}}',
+                'export const load: PageServerLoad = async () => ({ form: await superValidate{{name}}() });',
+                '{{unknown}}',
+                ''
+            ].join('\n'),
+            '+server.js': '// {{typesImport}}{{types}}\n'
+        };
+        const render = (typescript: boolean) => RouteScaffoldUtils.render(
+            ['page', 'pageServer', 'server'],
+            { routeId: '/(app)/blog-post/[slug]/[id=integer]', typescript, runes: true, methods: ['GET'] },
+            templates
+        );
+
+        const [page, pageServer, server] = render(true);
+        assert.strictEqual(pageServer.content, [
+            `import type { Actions, PageServerLoad } from './$types';`,
+            '',
+            '// /(app)/blog-post/[slug]/[id=integer] (/blog-post/:slug/:id) with slug, id',
+            'export const load: PageServerLoad = async () => ({ form: await superValidateBlogPostSlugId() });',
+            '{{unknown}}',
+            ''
+        ].join('\n'));
+        assert.ok(page.content.includes('$props()'), 'files without a template are built in');
+        assert.ok(server.content.includes('export const GET: RequestHandler'), 'templates are per extension');
+
+        assert.strictEqual(render(false)[2].content, '// RequestHandler\n');
+        assert.strictEqual(RouteScaffoldUtils.getVariables('page', { routeId: '/', typescript: true, runes: true, methods: [] }).name, 'Index');
+    });
+});
+
+suite('Sitemap Test Suite', () => {
+    const sitemapDir = path.resolve(__dirname, '../../test-fixtures/sitemap');
+    const routesDir = path.join(sitemapDir, 'src/routes');
+
+    test('Should read page options and entries without running modules', () => {
+        assert.deepStrictEqual(
+            PageOptionsUtils.readEntries(path.join(routesDir, 'blog/[slug]/+page.ts')),
+            [{ slug: 'hello-world' }, { slug: 'second-post' }]
+        );
+        assert.strictEqual(PageOptionsUtils.readEntries(path.join(routesDir, 'docs/[page]/+page.server.ts')), null, 'computed entries');
+        assert.strictEqual(PageOptionsUtils.readEntries(path.join(routesDir, 'about/+page.ts')), null);
+
+        const layout = path.join(routesDir, '+layout.ts');
+        assert.strictEqual(PageOptionsUtils.resolvePrerender([layout]), true);
+        assert.strictEqual(PageOptionsUtils.resolvePrerender([layout, path.join(routesDir, 'search/+page.ts')]), false);
+        assert.strictEqual(PageOptionsUtils.resolvePrerender([]), null);
+
+        assert.ok(PageOptionsUtils.hasAuthGuard([path.join(routesDir, 'account/+page.server.ts')]));
+        assert.ok(!PageOptionsUtils.hasAuthGuard([layout, path.join(routesDir, 'docs/[page]/+page.server.ts')]));
+    });
+
+    test('Should expand routes with their param values', () => {
+        const integer = (matcher: string, value: string) => matcher === 'integer' && /^\d+$/.test(value);
+        assert.deepStrictEqual(SitemapUtils.expandRoute('/(app)/about', []), ['/about']);
+        assert.deepStrictEqual(
+            SitemapUtils.expandRoute('/products/[id=integer]', [{ id: '1' }, { id: 'abc' }, { slug: 'x' }], integer),
+            ['/products/1']
+        );
+        assert.deepStrictEqual(SitemapUtils.expandRoute('/[[lang]]/pricing', []), ['/pricing']);
+        assert.deepStrictEqual(SitemapUtils.expandRoute('/[[lang]]/pricing', [{ lang: 'de' }]), ['/de/pricing']);
+        assert.deepStrictEqual(SitemapUtils.expandRoute('/files/[...path]', []), []);
+        assert.strictEqual(SitemapUtils.validateParamsFile({ '/blog/[slug]': [{ slug: 'hello' }] }), null);
+        assert.match(String(SitemapUtils.validateParamsFile({ '/blog/[slug]': { slug: 'x' } })), /"\/blog\/\[slug\]"/);
+        assert.match(String(SitemapUtils.validateParamsFile({ '/blog/[slug]': 'hello' })), /"\/blog\/\[slug\]"/);
+        assert.match(String(SitemapUtils.validateParamsFile({ '/products/[id]': [{ id: 1 }] })), /"\/products\/\[id\]"/);
+        assert.ok(SitemapUtils.validateParamsFile([]));
+        assert.strictEqual(
+            SitemapUtils.toXml(['https://example.com/a&b']),
+            '<?xml version="1.0" encoding="UTF-8"?>\n' +
+            '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n' +
+            '\t<url>\n\t\t<loc>https://example.com/a&amp;b</loc>\n\t</url>\n' +
+            '</urlset>\n'
+        );
+    });
+
+    test('Should write the sitemap of static and expanded pages', async () => {
+        const routesProvider = new RoutesProvider(sitemapDir);
+        const generator = new SitemapGenerator(routesProvider);
+        const config = vscode.workspace.getConfiguration('svelteRadar');
+        try {
+            const { output, urls, skipped } = await generator.generate(routesProvider.getProjects()[0], 'https://example.com/');
+            assert.strictEqual(output, path.join(sitemapDir, 'static/sitemap.xml'));
+            assert.deepStrictEqual(urls.sort(), [
+                'https://example.com/shop',
+                'https://example.com/shop/about/',
+                'https://example.com/shop/account',
+                'https://example.com/shop/blog/hello-world',
+                'https://example.com/shop/blog/second-post',
+                'https://example.com/shop/pricing',
+                'https://example.com/shop/products/1',
+                'https://example.com/shop/search'
+            ]);
+            assert.deepStrictEqual(skipped.map(route => route.routeId).sort(), ['/docs/[page]', '/files/[...path]']);
+            assert.ok(fs.readFileSync(output, 'utf8').includes('<loc>https://example.com/shop/about/</loc>'));
+
+            await config.update('sitemap.skipUnprerendered', true);
+            await config.update('sitemap.skipAuthGuarded', true);
+            const guarded = await generator.generate(routesProvider.getProjects()[0], 'https://example.com');
+            assert.ok(!guarded.urls.includes('https://example.com/shop/search'));
+            assert.ok(!guarded.urls.includes('https://example.com/shop/account'));
+            assert.deepStrictEqual(
+                guarded.skipped.filter(route => !route.reason.startsWith('no param values')),
+                [
+                    { routeId: '/account', reason: 'requires signing in' },
+                    { routeId: '/search', reason: 'prerender is false' }
+                ]
+            );
+        } finally {
+            await config.update('sitemap.skipUnprerendered', undefined);
+            await config.update('sitemap.skipAuthGuarded', undefined);
+            fs.rmSync(path.join(sitemapDir, 'static'), { recursive: true, force: true });
+        }
+    });
+});
+
+suite('Layout Chain Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let routesDir: string;
+
+    suiteSetup(async () => {
+        const workspaceDir = path.resolve(__dirname, '../../test-fixtures');
+        routesProvider = new RoutesProvider(workspaceDir);
+        routesDir = path.join(workspaceDir, 'src/routes');
+    });
+
+    function chainOf(file: string): string[] {
+        return routesProvider.getLayoutChain(path.join(routesDir, file)).map(layout => layout.routeId);
+    }
+
+    test('Should include every layout above a page', () => {
+        assert.deepStrictEqual(chainOf('layouts/(app)/item/[id]/plain/+page.svelte'), [
+            '/',
+            '/layouts',
+            '/layouts/(app)',
+            '/layouts/(app)/item/[id]'
+        ]);
+    });
+
+    test('Should stop at the target of a page reset', () => {
+        assert.deepStrictEqual(chainOf('layouts/(app)/item/[id]/embed/+page@(app).svelte'), [
+            '/',
+            '/layouts',
+            '/layouts/(app)'
+        ]);
+    });
+
+    test('Should only keep the root layout for +page@', () => {
+        assert.deepStrictEqual(chainOf('layouts/(app)/item/[id]/root/+page@.svelte'), ['/']);
+    });
+
+    test('Should follow layout resets', () => {
+        assert.deepStrictEqual(chainOf('layouts/(app)/standalone/+page.svelte'), [
+            '/',
+            '/layouts/(app)/standalone'
+        ]);
+    });
+
+    test('Should list the load files of each layout', () => {
+        const chain = routesProvider.getLayoutChain(path.join(routesDir, 'layouts/(app)/+layout.svelte'));
+        assert.deepStrictEqual(
+            chain.map(layout => layout.loadFiles.map(file => path.basename(file))),
+            [[], ['+layout.server.ts'], []]
+        );
+    });
+
+    test('Should compute how many levels up a reset goes', () => {
+        const resetInfo = (file: string) => LayoutChainUtils.parseResetInfo(routesDir, path.join(routesDir, file));
+        assert.strictEqual(resetInfo('layouts/(app)/item/[id]/embed/+page@(app).svelte')?.layoutLevel, 3);
+        assert.strictEqual(resetInfo('layouts/(app)/item/[id]/root/+page@.svelte')?.layoutLevel, 5);
+        assert.strictEqual(resetInfo('layouts/(app)/standalone/+layout@.svelte')?.layoutLevel, 3);
+    });
+});
+
 suite('Route Sorting Test Suite', () => {
     let routesProvider: RoutesProvider;
     let workspaceDir: string;
@@ -297,4 +1764,105 @@ suite('Route Sorting Test Suite', () => {
             'xyz10abc20'
         ]);
     });
-});
\ No newline at end of file
+});
+
+suite('Svelte Config Test Suite', () => {
+    let routesProvider: RoutesProvider;
+    let projectDir: string;
+
+    suiteSetup(async () => {
+        projectDir = path.resolve(__dirname, '../../test-fixtures/custom-config');
+        routesProvider = new RoutesProvider(projectDir);
+    });
+
+    function normalizePath(filePath: string): string {
+        return filePath?.replace(/\\/g, '/');
+    }
+
+    test('Should read kit.files locations from svelte.config.js', () => {
+        assert.strictEqual(
+            normalizePath(routesProvider.getRoutesDir()),
+            normalizePath(path.join(projectDir, 'app/routes'))
+        );
+        assert.strictEqual(
+            normalizePath(routesProvider.getParamsDir()),
+            normalizePath(path.join(projectDir, 'app/params'))
+        );
+        assert.strictEqual(
+            normalizePath(routesProvider.getHooksFiles().server),
+            normalizePath(path.join(projectDir, 'app/hooks.server'))
+        );
+    });
+
+    test('Should fall back to defaults for options not in svelte.config.js', () => {
+        assert.strictEqual(
+            normalizePath(routesProvider.getHooksFiles().client),
+            normalizePath(path.join(projectDir, 'src/hooks.client'))
+        );
+    });
+
+    test('Should match routes in the configured routes directory', async () => {
+        const result = await routesProvider.findMatchingRoute('/about');
+        assert.strictEqual(
+            normalizePath(result!),
+            normalizePath(path.join(projectDir, 'app/routes/about/+page.svelte'))
+        );
+    });
+});
+
+suite('Monorepo Test Suite', () => {
+    let monorepoDir: string;
+
+    suiteSetup(async () => {
+        monorepoDir = path.resolve(__dirname, '../../test-fixtures/monorepo');
+    });
+
+    test('Should detect every SvelteKit app', () => {
+        const projects = ProjectUtils.resolveProjects(monorepoDir, {});
+        assert.deepStrictEqual(
+            projects.map(project => path.relative(monorepoDir, project.root).replace(/\\/g, '/')),
+            ['apps/docs', 'apps/web']
+        );
+        assert.deepStrictEqual(projects.map(project => project.name), ['docs', 'web']);
+    });
+
+    test('Should use the projects listed in svelte-radar.json', () => {
+        const projects = ProjectUtils.resolveProjects(monorepoDir, {
+            port: 3000,
+            projects: ['apps/web', { root: 'apps/docs', name: 'Docs', port: 5174 }]
+        });
+        assert.deepStrictEqual(
+            projects.map(project => [project.name, project.port]),
+            [['web', 3000], ['Docs', 5174]]
+        );
+    });
+
+    test('Should match routes within each project', async () => {
+        const [docs, web] = ProjectUtils.resolveProjects(monorepoDir, {});
+        const routesProvider = new RoutesProvider(web.root);
+
+        assert.strictEqual(
+            await routesProvider.findMatchingRoute('/shop', web),
+            path.join(web.root, 'src/routes/shop/+page.svelte')
+        );
+        assert.strictEqual(await routesProvider.findMatchingRoute('/shop', docs), null);
+        assert.strictEqual(
+            await routesProvider.findMatchingRoute('/guides/intro', docs),
+            path.join(docs.root, 'src/routes/guides/[slug]/+page.svelte')
+        );
+    });
+
+    test('Should read scripts and the package manager of the monorepo', () => {
+        const web = path.join(monorepoDir, 'apps/web');
+        assert.strictEqual(ProjectUtils.getScripts(web).dev, 'vite dev');
+        assert.deepStrictEqual(ProjectUtils.getScripts(path.join(monorepoDir, 'apps/docs')), {});
+        assert.strictEqual(ProjectUtils.detectPackageManager(web), 'pnpm');
+    });
+
+    test('Should find the project of a file', () => {
+        const routesProvider = new RoutesProvider(path.join(monorepoDir, 'apps/web'));
+        const filePath = path.join(monorepoDir, 'apps/web/src/routes/+page.svelte');
+        assert.strictEqual(routesProvider.getProjectForFile(filePath)?.name, 'web');
+        assert.strictEqual(routesProvider.getProjectForFile(path.join(monorepoDir, 'apps/docs')), undefined);
+    });
+});
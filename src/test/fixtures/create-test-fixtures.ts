@@ -114,6 +114,353 @@ export async function createTestFixtures() {
     await createFile("about/+layout.js");
     await createFile("dashboard/+page.server.js");
 
+    // Route file variants, only valid names count as route files
+    await createFile("variants/endpoint/+server.ts");
+    await createFile("variants/misnamed/+Page.svelte");
+    await createFile("variants/misnamed/+page.server.svelte");
+    await createFile("variants/endpoint/helpers.ts");
+    await createFile("variants/.drafts/+page.svelte");
+
+    // Route ranking, mirroring SvelteKit's sort_routes precedence rules
+    await createFile("ranking/mixed/foo-abc/+page.svelte");
+    await createFile("ranking/mixed/foo-[c]/+page.svelte");
+    await createFile("ranking/mixed/[[a=integer]]/+page.svelte");
+    await createFile("ranking/mixed/[b]/+page.svelte");
+    await createFile("ranking/mixed/[...catchall]/+page.svelte");
+    await createFile("ranking/files/[...path]/edit/+page.svelte");
+    await createFile("ranking/files/[...path]/+page.svelte");
+    await createFile("ranking/files/[id]/+page.svelte");
+    await createFile("ranking/multi/[...a]/mid/[...b]/+page.svelte");
+    await createFile("ranking/opt/[[lang]]/about/+page.svelte");
+    await createFile("ranking/opt/[slug]/+page.svelte");
+    await createFile("ranking/backtrack/static/y/+page.svelte");
+    await createFile("ranking/backtrack/[a]/x/+page.svelte");
+
+    // Mixed and multi-parameter segments
+    await createFile("mixed/post-[slug]/+page.svelte");
+    await createFile("mixed/[lang]-[region]/+page.svelte");
+    await createFile("mixed/v[version=integer]/+page.svelte");
+    await createFile("mixed/time[x+3a]now/+page.svelte");
+
+    // Layout chains and resets
+    await createFile("layouts/+layout.svelte");
+    await createFile("layouts/+layout.server.ts");
+    await createFile("layouts/(app)/+layout.svelte");
+    await createFile("layouts/(app)/item/[id]/+layout.svelte");
+    await createFile("layouts/(app)/item/[id]/plain/+page.svelte");
+    await createFile("layouts/(app)/item/[id]/embed/+page@(app).svelte");
+    await createFile("layouts/(app)/item/[id]/root/+page@.svelte");
+    await createFile("layouts/(app)/standalone/+layout@.svelte");
+    await createFile("layouts/(app)/standalone/+page.svelte");
+
+    // Project param matchers
+    await createFile("tags/[tag=slug]/+page.svelte");
+    await createFile("tags/[...rest]/+page.svelte");
+    await createFile("items/[id=broken]/+page.svelte");
+    await createFile("items/[name]/+page.svelte");
+    await createFile("users/[id=unknown]/+page.svelte");
+
+    const srcDir = path.join(fixturesDir, "src");
+    await fs.ensureDir(path.join(srcDir, "params"));
+    await fs.ensureDir(path.join(srcDir, "lib"));
+    await fs.writeFile(
+      path.join(srcDir, "lib", "patterns.ts"),
+      "export const SLUG_PATTERN: RegExp = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;\n"
+    );
+    // Links being typed, for path completion
+    await fs.writeFile(
+      path.join(srcDir, "lib", "Links.svelte"),
+      [
+        '<a href="/">Home</a>',
+        '<a href="/dashboard/">Dashboard</a>',
+        '<a href="/products/">Products</a>',
+        '<a href="/layouts/item/42/">Item</a>',
+        "<button on:click={() => goto('/docs/')}>Docs</button>",
+        '<a href="/ranking/files/a/b/">Files</a>',
+      ].join("\n")
+    );
+    await fs.writeFile(
+      path.join(srcDir, "params", "slug.ts"),
+      [
+        "import type { ParamMatcher } from '@sveltejs/kit';",
+        "import { SLUG_PATTERN } from '$lib/patterns';",
+        "",
+        "export const match = ((param: string): param is string => {",
+        "  return SLUG_PATTERN.test(param);",
+        "}) satisfies ParamMatcher;",
+      ].join("\n")
+    );
+    await fs.writeFile(
+      path.join(srcDir, "params", "broken.ts"),
+      [
+        "import { isValid } from 'some-validation-package';",
+        "",
+        "export function match(param: string): boolean {",
+        "  return isValid(param);",
+        "}",
+      ].join("\n")
+    );
+    console.log("Created param matchers:", path.join(srcDir, "params"));
+
+    // Project with custom file locations in svelte.config.js
+    const customConfigDir = path.join(fixturesDir, "custom-config");
+    await fs.ensureDir(customConfigDir);
+    await fs.writeFile(
+      path.join(customConfigDir, "svelte.config.js"),
+      [
+        "import adapter from '@sveltejs/adapter-auto';",
+        "",
+        "/** @type {import('@sveltejs/kit').Config} */",
+        "const config = {",
+        "  kit: {",
+        "    adapter: adapter(),",
+        "    // routes live outside of src",
+        "    files: {",
+        "      routes: 'app/routes',",
+        "      params: 'app/params',",
+        "      hooks: { server: 'app/hooks.server' }",
+        "    }",
+        "  }",
+        "};",
+        "",
+        "export default config;",
+      ].join("\n")
+    );
+    await fs.ensureDir(path.join(customConfigDir, "app/routes/about"));
+    await fs.writeFile(path.join(customConfigDir, "app/routes/+page.svelte"), "");
+    await fs.writeFile(path.join(customConfigDir, "app/routes/about/+page.svelte"), "");
+    console.log("Created custom config project:", customConfigDir);
+
+    // Monorepo with several apps, only the ones using SvelteKit are projects
+    const monorepoDir = path.join(fixturesDir, "monorepo");
+    const writeMonorepoFile = async (filePath: string, content: string = "") => {
+      const fullPath = path.join(monorepoDir, filePath);
+      await fs.ensureDir(path.dirname(fullPath));
+      await fs.writeFile(fullPath, content);
+    };
+    await writeMonorepoFile(
+      "apps/web/package.json",
+      JSON.stringify({
+        name: "web",
+        scripts: { dev: "vite dev" },
+        devDependencies: { "@sveltejs/kit": "^2.0.0" },
+      })
+    );
+    await writeMonorepoFile("pnpm-lock.yaml", "lockfileVersion: '9.0'");
+    await writeMonorepoFile("apps/web/svelte.config.js", "export default {};");
+    await writeMonorepoFile("apps/web/src/routes/+page.svelte");
+    await writeMonorepoFile("apps/web/src/routes/shop/+page.svelte");
+    await writeMonorepoFile(
+      "apps/docs/svelte.config.js",
+      "import adapter from '@sveltejs/adapter-static';\n\nexport default { kit: { adapter: adapter() } };"
+    );
+    await writeMonorepoFile("apps/docs/src/routes/guides/[slug]/+page.svelte");
+    await writeMonorepoFile(
+      "packages/ui/package.json",
+      JSON.stringify({ name: "ui", devDependencies: { svelte: "^5.0.0" } })
+    );
+    await writeMonorepoFile(
+      "packages/ui/svelte.config.js",
+      "import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';\n\nexport default { preprocess: vitePreprocess() };"
+    );
+    await writeMonorepoFile(
+      "node_modules/some-app/svelte.config.js",
+      "import adapter from '@sveltejs/adapter-auto';"
+    );
+    console.log("Created monorepo:", monorepoDir);
+
+    // App served from a base path, with trailingSlash page options
+    const basePathDir = path.join(fixturesDir, "base-path");
+    const writeBasePathFile = async (filePath: string, content: string = "") => {
+      const fullPath = path.join(basePathDir, filePath);
+      await fs.ensureDir(path.dirname(fullPath));
+      await fs.writeFile(fullPath, content);
+    };
+    await writeBasePathFile(
+      "svelte.config.js",
+      "export default { kit: { paths: { base: '/docs' } } };"
+    );
+    await writeBasePathFile(
+      "package.json",
+      JSON.stringify({
+        name: "docs-site",
+        devDependencies: { "@sveltejs/kit": "^2.0.0" },
+      })
+    );
+    await writeBasePathFile(
+      "vite.config.ts",
+      [
+        "import { sveltekit } from '@sveltejs/kit/vite';",
+        "import { defineConfig } from 'vite';",
+        "",
+        "export default defineConfig({",
+        "  plugins: [sveltekit()],",
+        "  server: { port: 5200, strictPort: false }",
+        "});",
+      ].join("\n")
+    );
+    await writeBasePathFile("src/routes/+layout.ts", "export const trailingSlash = 'always';");
+    await writeBasePathFile("src/routes/+page.svelte");
+    await writeBasePathFile("src/routes/guides/[slug]/+page.svelte");
+    await writeBasePathFile("src/routes/legacy/+page.svelte");
+    await writeBasePathFile(
+      "src/routes/legacy/+page.server.ts",
+      "export const trailingSlash: TrailingSlash = 'ignore';"
+    );
+    await writeBasePathFile("src/routes/legacy/+page.ts", 'export const trailingSlash = "never";');
+    await writeBasePathFile("src/routes/api/+server.ts", "export function GET() {}");
+    await writeBasePathFile("static/favicon.png");
+    await writeBasePathFile(
+      "src/lib/Nav.svelte",
+      [
+        "<script lang=\"ts\">",
+        "  import { goto } from '$app/navigation';",
+        "  export let slug: string;",
+        "</script>",
+        "",
+        "<link rel=\"icon\" href=\"/docs/favicon.png\" />",
+        "<a href=\"/docs/guides/intro\">Intro</a>",
+        "<a href=\"/docs/gudies/intro\">Typo</a>",
+        "<a href=\"/docs/legacy?tab=1#top\">Legacy</a>",
+        "<a href=\"/docs/guides/{slug}\">Guide</a>",
+        "<a href=\"/about\">Outside</a>",
+        "<a href=\"https://svelte.dev\">External</a>",
+        "<button on:click={() => goto('/docs/settings')}>Settings</button>",
+      ].join("\n")
+    );
+    await writeBasePathFile("src/lib/Complete.svelte", '<a href="/">Home</a>\n<a href="/docs/">Docs</a>');
+    await writeBasePathFile(
+      "src/lib/auth.ts",
+      [
+        "import { redirect } from '@sveltejs/kit';",
+        "",
+        "export function requireUser(user: unknown) {",
+        "  if (!user) redirect(303, `/docs/login?from=${encodeURIComponent('/')}`);",
+        "}",
+      ].join("\n")
+    );
+    console.log("Created base path project:", basePathDir);
+
+    // Routes SvelteKit refuses to build, or that can't be reached
+    const conflictsDir = path.join(fixturesDir, "conflicts/src/routes");
+    for (const filePath of [
+      "+page.svelte",
+      "(a)/about/+page.svelte",
+      "(b)/about/+page.svelte",
+      "items/[id]/+page.svelte",
+      "items/[slug]/+server.ts",
+      "docs/+page.svelte",
+      "docs/[[lang]]/+page.svelte",
+      "blog/[slug]/+page.svelte",
+      "blog/[slug=integer]/+page.svelte",
+      "[a]/[...rest]/+page.svelte",
+      "[...all]/+page.svelte",
+      "[...all]/+page.ts",
+    ]) {
+      await fs.ensureDir(path.dirname(path.join(conflictsDir, filePath)));
+      await fs.writeFile(path.join(conflictsDir, filePath), "");
+    }
+    console.log("Created conflicts project:", conflictsDir);
+
+    // Route files SvelteKit skips or rejects
+    const lintDir = path.join(fixturesDir, "lint/src/routes");
+    for (const filePath of [
+      "+page.svelte",
+      "case/+Page.svelte",
+      "server-component/+page.server.svelte",
+      "plus/page.svelte",
+      "colocated/+page.svelte",
+      "colocated/+layout.js",
+      "colocated/+error.svelte",
+      "colocated/+server.ts",
+      "colocated/server.ts",
+      "colocated/layout.ts",
+      "colocated/error.svelte",
+      "colocated/page@.svelte",
+      "modules/+page.svelte",
+      "modules/page.ts",
+      "modules/server.js",
+      "modules/layout.server.ts",
+      "legacy/index.svelte",
+      "legacy/[slug].svelte",
+      "legacy/[slug].json.ts",
+      "api/+layout.server.ts",
+      "api/+server.ts",
+      "load-only/+page.ts",
+      "duplicates/+page.svelte",
+      "duplicates/+page.ts",
+      "duplicates/+page.js",
+      "shell/+layout.svelte",
+      "shell/child/+page.svelte",
+      "components/+page.svelte",
+      "components/Header.svelte",
+      "components/utils.ts",
+    ]) {
+      await fs.ensureDir(path.dirname(path.join(lintDir, filePath)));
+      await fs.writeFile(path.join(lintDir, filePath), "");
+    }
+    console.log("Created lint project:", lintDir);
+
+    // Pages to list in a sitemap: expanded by entries or a params file, or left out
+    const sitemapDir = path.join(fixturesDir, "sitemap");
+    const writeSitemapFile = async (filePath: string, content: string = "") => {
+      const fullPath = path.join(sitemapDir, filePath);
+      await fs.ensureDir(path.dirname(fullPath));
+      await fs.writeFile(fullPath, content);
+    };
+    await writeSitemapFile(
+      "svelte.config.js",
+      "export default { kit: { paths: { base: '/shop' } } };"
+    );
+    await writeSitemapFile(
+      "sitemap.params.json",
+      JSON.stringify({ "/products/[id=integer]": [{ id: "1" }, { id: "abc" }] })
+    );
+    await writeSitemapFile(
+      "src/params/integer.ts",
+      "export const match = (param: string) => /^\\d+$/.test(param);"
+    );
+    await writeSitemapFile("src/routes/+layout.ts", "export const prerender = true;");
+    await writeSitemapFile("src/routes/+page.svelte");
+    await writeSitemapFile("src/routes/about/+page.svelte");
+    await writeSitemapFile("src/routes/about/+page.ts", "export const trailingSlash = 'always';");
+    await writeSitemapFile("src/routes/blog/[slug]/+page.svelte");
+    await writeSitemapFile(
+      "src/routes/blog/[slug]/+page.ts",
+      [
+        "import type { EntryGenerator } from './$types';",
+        "",
+        "// Listed for prerendering",
+        "export const entries: EntryGenerator = () => {",
+        "  return [{ slug: 'hello-world' }, { slug: 'second-post' }];",
+        "};",
+      ].join("\n")
+    );
+    await writeSitemapFile("src/routes/docs/[page]/+page.svelte");
+    await writeSitemapFile(
+      "src/routes/docs/[page]/+page.server.ts",
+      "export async function entries() {\n  return (await listPages()).map((page) => ({ page }));\n}\n\nfunction fallbackPages() {\n  return [{ page: 'intro' }];\n}"
+    );
+    await writeSitemapFile("src/routes/products/[id=integer]/+page.svelte");
+    await writeSitemapFile("src/routes/[[lang]]/pricing/+page.svelte");
+    await writeSitemapFile("src/routes/files/[...path]/+page.svelte");
+    await writeSitemapFile("src/routes/search/+page.svelte");
+    await writeSitemapFile("src/routes/search/+page.ts", "export const prerender = false;");
+    await writeSitemapFile("src/routes/account/+page.svelte");
+    await writeSitemapFile(
+      "src/routes/account/+page.server.ts",
+      [
+        "import { redirect } from '@sveltejs/kit';",
+        "",
+        "export const load = async ({ locals }) => {",
+        "  if (!locals.user) redirect(303, '/shop/login');",
+        "  return { user: locals.user };",
+        "};",
+      ].join("\n")
+    );
+    await writeSitemapFile("src/routes/api/+server.ts", "export function GET() {}");
+    console.log("Created sitemap project:", sitemapDir);
+
     console.log("Test fixtures created successfully!");
     console.log("Fixtures location:", fixturesDir);
   } catch (error) {
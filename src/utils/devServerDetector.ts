@@ -0,0 +1,204 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as vscode from 'vscode';
+import { DevServer } from '../constant/type';
+import { SvelteProject } from '../models/svelteProject';
+import { ProjectUtils } from './projectUtils';
+import { SvelteConfigUtils } from './svelteConfigUtils';
+
+const DEFAULT_VITE_PORT = 5173;
+
+// Vite moves on to the next port while one is busy, so look this many ports further
+const PORT_RANGE = 10;
+
+const PROBE_TIMEOUT = 500;
+
+// Responses are read up to this many characters
+const MAX_RESPONSE_LENGTH = 100_000;
+
+// Only the end of a terminal's output is kept while waiting for the URL
+const MAX_OUTPUT_LENGTH = 2000;
+
+// `➜  Local:   http://localhost:5174/` as printed by `vite dev`
+const LOCAL_URL_PATTERN = /Local:\s+(https?:\/\/[^\s/]+)/;
+
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[A-Za-z]/g;
+
+/**
+ * The parts of a terminal shell execution we read. Shell integration was
+ * added in VS Code 1.93, so it is looked up at runtime instead of raising
+ * the minimum version.
+ */
+interface TerminalShellExecution {
+    commandLine: { value: string };
+    cwd: vscode.Uri | undefined;
+    read(): AsyncIterable<string>;
+}
+
+/**
+ * Finds the dev server a project is running on: URLs printed by `vite dev`
+ * in an integrated terminal come first, then the ports from vite.config and
+ * svelte-radar.json and the ones Vite falls back to are probed
+ */
+export class DevServerDetector implements vscode.Disposable {
+    private printed: { cwd: string | undefined; origin: string }[] = [];
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        const { onDidStartTerminalShellExecution } = vscode.window as unknown as {
+            onDidStartTerminalShellExecution?: vscode.Event<{ execution: TerminalShellExecution }>;
+        };
+        if (onDidStartTerminalShellExecution) {
+            this.disposables.push(onDidStartTerminalShellExecution(({ execution }) => this.watchExecution(execution)));
+        }
+    }
+
+    /**
+     * Returns the dev server of a project, skipping ports already claimed by other projects
+     */
+    async detect(project: SvelteProject, claimed: Set<number> = new Set()): Promise<DevServer | undefined> {
+        for (const origin of this.getCandidates(project)) {
+            const server = DevServerDetector.toDevServer(origin);
+            if (!claimed.has(server.port) && await DevServerDetector.probe(origin, project)) {
+                return server;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Whether a Vite dev server answers at an origin, recognized by its
+     * `/@vite/client` module. Given a project, the server must also be the
+     * one of that SvelteKit app, not another Vite server of the workspace.
+     */
+    static async probe(origin: string, project?: SvelteProject): Promise<boolean> {
+        const client = await this.get(`${origin}/@vite/client`, false);
+        if (client?.status !== 200 || !/javascript/.test(client.contentType)) {
+            return false;
+        }
+        return !project || this.servesProject(origin, project);
+    }
+
+    /**
+     * Finds the local URL in the output of `vite dev`
+     */
+    static parseLocalUrl(output: string): string | null {
+        const match = LOCAL_URL_PATTERN.exec(output.replace(ANSI_PATTERN, ''));
+        if (!match) {
+            return null;
+        }
+        try {
+            return new URL(match[1]).origin;
+        } catch {
+            return null;
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * Origins to probe, most likely first
+     */
+    private getCandidates(project: SvelteProject): string[] {
+        const printed = this.printed
+            .filter(({ cwd }) => !cwd || project.contains(cwd))
+            // Terminals opened in the project before the ones we can't place
+            .sort((a, b) => Number(!a.cwd) - Number(!b.cwd))
+            .map(({ origin }) => origin);
+
+        const vitePort = SvelteConfigUtils.readViteServerOptions(project.root).port;
+        const ports = [
+            ...(typeof vitePort === 'number' ? [vitePort] : []),
+            project.port,
+            DEFAULT_VITE_PORT,
+        ].flatMap(port => Array.from({ length: PORT_RANGE }, (_, offset) => port + offset));
+
+        return [...new Set([...printed, ...ports.map(port => `http://localhost:${port}`)])];
+    }
+
+    private async watchExecution(execution: TerminalShellExecution) {
+        if (!/\b(vite|dev)\b/.test(execution.commandLine.value)) {
+            return;
+        }
+
+        let output = '';
+        try {
+            for await (const data of execution.read()) {
+                output = (output + data).slice(-MAX_OUTPUT_LENGTH);
+                const origin = DevServerDetector.parseLocalUrl(output);
+                if (origin) {
+                    // Newest first
+                    this.printed.unshift({ cwd: execution.cwd?.fsPath, origin });
+                    this._onDidChange.fire();
+                    return;
+                }
+            }
+        } catch (error) {
+            console.error('Error reading terminal output:', error);
+        }
+    }
+
+    /**
+     * Vite serves JSON files as modules, so this reads the package.json at
+     * the root of the server. It has to depend on SvelteKit and have the
+     * project's package name.
+     */
+    private static async servesProject(origin: string, project: SvelteProject): Promise<boolean> {
+        const response = await this.get(`${origin}/package.json?import`, true);
+        if (response?.status !== 200) {
+            return false;
+        }
+
+        // Depending on the Vite version, the JSON is inlined as is or as a string
+        const mentions = (value: string) => [JSON.stringify(value), JSON.stringify(JSON.stringify(value)).slice(1, -1)]
+            .some(quoted => response.body.includes(quoted));
+        const name = ProjectUtils.readPackageJson(project.root)?.name;
+        return mentions('@sveltejs/kit') && (!name || mentions(name));
+    }
+
+    private static get(
+        url: string,
+        readBody: boolean
+    ): Promise<{ status: number | undefined; contentType: string; body: string } | null> {
+        const client = url.startsWith('https:') ? https : http;
+
+        return new Promise(resolve => {
+            const request = client.get(
+                url,
+                // Dev servers on https mostly use self-signed certificates
+                { timeout: PROBE_TIMEOUT, rejectUnauthorized: false },
+                response => {
+                    const result = { status: response.statusCode, contentType: response.headers['content-type'] ?? '', body: '' };
+                    if (!readBody) {
+                        response.resume();
+                        resolve(result);
+                        return;
+                    }
+
+                    response.setEncoding('utf8');
+                    response.on('data', (chunk: string) => {
+                        result.body += chunk;
+                        if (result.body.length > MAX_RESPONSE_LENGTH) {
+                            response.destroy();
+                            resolve(result);
+                        }
+                    });
+                    response.on('end', () => resolve(result));
+                    response.on('error', () => resolve(null));
+                }
+            );
+            request.on('timeout', () => request.destroy());
+            request.on('error', () => resolve(null));
+        });
+    }
+
+    private static toDevServer(origin: string): DevServer {
+        const url = new URL(origin);
+        return { origin, port: url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80 };
+    }
+}
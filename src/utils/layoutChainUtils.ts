@@ -0,0 +1,131 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { DirectoryReader, LayoutInfo, ResetInfo } from '../constant/type';
+import { RouteFileUtils } from './routeFileUtils';
+
+/**
+ * Resolves which layouts wrap a route file, following `+page@x` and
+ * `+layout@x` resets the same way SvelteKit does
+ */
+export class LayoutChainUtils {
+    /**
+     * Returns the layouts that apply to a route file, from the root layout
+     * down. For layout files the chain ends with the layout itself.
+     */
+    static resolveLayoutChain(
+        routesDir: string,
+        filePath: string,
+        readDir: DirectoryReader = LayoutChainUtils.readDir
+    ): LayoutInfo[] {
+        const kind = RouteFileUtils.classify(path.basename(filePath));
+        if (!kind || kind.fileType === 'server') {
+            return [];
+        }
+
+        const segments = this.getSegments(routesDir, path.dirname(filePath));
+
+        if (RouteFileUtils.isLayout(kind)) {
+            return this.chainAt(routesDir, segments, segments.length, readDir);
+        }
+
+        if (kind.resetTarget !== null) {
+            return this.chainAt(routesDir, segments, this.findResetDepth(segments, kind.resetTarget, segments.length) ?? 0, readDir);
+        }
+
+        return this.chainAt(routesDir, segments, segments.length, readDir);
+    }
+
+    /**
+     * Parses the reset target of `+page@x.svelte` / `+layout@x.svelte` files
+     */
+    static parseResetInfo(routesDir: string, filePath: string): ResetInfo | null {
+        const kind = RouteFileUtils.classify(path.basename(filePath));
+        if (!kind || kind.resetTarget === null) {
+            return null;
+        }
+
+        const segments = this.getSegments(routesDir, path.dirname(filePath));
+
+        // Pages may reset to their own directory's layout, layouts only to an ancestor's
+        const maxDepth = kind.fileType === 'page' ? segments.length : segments.length - 1;
+        const targetDepth = this.findResetDepth(segments, kind.resetTarget, maxDepth);
+
+        const resetTarget = kind.resetTarget || 'root';
+        return {
+            resetTarget,
+            displayName: resetTarget,
+            layoutLevel: segments.length - (targetDepth ?? 0),
+        };
+    }
+
+    /**
+     * Finds the depth of the closest ancestor named `target`, or null if there is none
+     */
+    static findResetDepth(segments: string[], target: string, maxDepth: number): number | null {
+        if (target === '') {
+            return 0;
+        }
+        for (let depth = maxDepth; depth > 0; depth--) {
+            if (segments[depth - 1] === target) {
+                return depth;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Reads the layout files of a directory, or null if it has none
+     */
+    static readLayout(routesDir: string, dir: string, readDir: DirectoryReader = LayoutChainUtils.readDir): LayoutInfo | null {
+        const files = readDir(dir).map(file => ({ file, kind: RouteFileUtils.classify(file) }));
+        const component = files.find(({ kind }) => kind?.fileType === 'layout')?.file;
+        const loadFiles = files
+            .filter(({ kind }) => kind?.fileType === 'layoutClient' || kind?.fileType === 'layoutServer')
+            .map(({ file }) => path.join(dir, file));
+
+        if (!component && loadFiles.length === 0) {
+            return null;
+        }
+
+        const segments = this.getSegments(routesDir, dir);
+        return {
+            routeId: '/' + segments.join('/'),
+            dir,
+            component: component ? path.join(dir, component) : null,
+            loadFiles,
+            resetInfo: component ? this.parseResetInfo(routesDir, path.join(dir, component)) : null,
+        };
+    }
+
+    /**
+     * The chain of the closest layout at or above `depth`
+     */
+    private static chainAt(routesDir: string, segments: string[], depth: number, readDir: DirectoryReader): LayoutInfo[] {
+        for (let current = depth; current >= 0; current--) {
+            const layout = this.readLayout(routesDir, path.join(routesDir, ...segments.slice(0, current)), readDir);
+            if (!layout) {
+                continue;
+            }
+
+            // A `+layout@x` skips the layouts between itself and x
+            const resetTarget = layout.component ? RouteFileUtils.classify(path.basename(layout.component))?.resetTarget : null;
+            const parentDepth = resetTarget !== null && resetTarget !== undefined
+                ? this.findResetDepth(segments, resetTarget, current - 1) ?? 0
+                : current - 1;
+
+            if (current === 0) {
+                return [layout];
+            }
+            return [...this.chainAt(routesDir, segments, parentDepth, readDir), layout];
+        }
+        return [];
+    }
+
+    private static readDir(dir: string): string[] {
+        return fs.existsSync(dir) ? fs.readdirSync(dir) : [];
+    }
+
+    private static getSegments(routesDir: string, dir: string): string[] {
+        return path.relative(routesDir, dir).split(path.sep).filter(Boolean);
+    }
+}
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import { PrerenderOption, TrailingSlash } from '../constant/type';
+import { StaticValue, SvelteConfigUtils } from './svelteConfigUtils';
+
+// `export const trailingSlash = 'always';`, optionally with a type annotation
+const TRAILING_SLASH_PATTERN = /export\s+const\s+trailingSlash\s*(?::[^=]+)?=\s*(['"`])(always|never|ignore)\1/;
+
+// `export const prerender = false;`, `true` or `'auto'`
+const PRERENDER_PATTERN = /export\s+const\s+prerender\s*(?::[^=]+)?=\s*(true|false|(['"`])auto\2)/;
+
+// The start of `export const entries = () => ...` or the body of `export function entries() {`
+const ENTRIES_PATTERN = /export\s+(?:(?:const|let)\s+entries\s*(?::[^=]+)?=\s*(?:async\s*)?(?:\([^)]*\)|\w+)\s*(?::[^=]+)?=>|(?:async\s+)?function\s+entries\s*\([^)]*\)\s*(?::[^{]+)?\{)/;
+
+// Signs that a server load function only serves signed-in users
+const AUTH_GUARD_PATTERN = /\blocals\.(?:user|session|auth)\b|\b(?:safeGetSession|getSession)\s*\(|\berror\(\s*40[13]\b|\bredirect\(\s*30[1278]\s*,\s*['"`][^'"`]*(?:login|signin|sign-in|auth)/i;
+
+/**
+ * Reads page options from +page, +layout and +server modules without executing them
+ */
+export class PageOptionsUtils {
+    /**
+     * Returns the `trailingSlash` option a module exports, if it's a literal
+     */
+    static readTrailingSlash(filePath: string): TrailingSlash | null {
+        try {
+            const match = TRAILING_SLASH_PATTERN.exec(fs.readFileSync(filePath, 'utf8'));
+            return match ? (match[2] as TrailingSlash) : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Resolves the `trailingSlash` option of a route from its modules, root
+     * layout first. Like SvelteKit, the last module setting it wins.
+     */
+    static resolveTrailingSlash(files: string[]): TrailingSlash {
+        let trailingSlash: TrailingSlash = 'never';
+        for (const file of files) {
+            trailingSlash = this.readTrailingSlash(file) ?? trailingSlash;
+        }
+        return trailingSlash;
+    }
+
+    /**
+     * Resolves the `prerender` option of a route from its modules, root
+     * layout first, or null if none of them sets it
+     */
+    static resolvePrerender(files: string[]): PrerenderOption | null {
+        let prerender: PrerenderOption | null = null;
+        for (const file of files) {
+            const match = PRERENDER_PATTERN.exec(this.read(file));
+            if (match) {
+                prerender = match[1] === 'true' ? true : match[1] === 'false' ? false : 'auto';
+            }
+        }
+        return prerender;
+    }
+
+    /**
+     * Returns the param values a module's `entries` function returns, if it
+     * returns an array literal, e.g. `() => [{ slug: 'hello' }]`. Entries
+     * computed at build time can't be read and give null.
+     */
+    static readEntries(filePath: string): Record<string, string>[] | null {
+        const source = SvelteConfigUtils.stripComments(this.read(filePath));
+        const match = ENTRIES_PATTERN.exec(source);
+        if (!match) {
+            return null;
+        }
+
+        // Arrow functions may return the array right away, others `return` it from their body
+        const start = match.index + match[0].length;
+        const isFunction = match[0].endsWith('{');
+        const head = isFunction ? null : /^\s*(?:\(?\s*\[|\{)/.exec(source.slice(start));
+        if (!isFunction && !head) {
+            return null;
+        }
+
+        let arrayStart: number;
+        if (head?.[0].endsWith('[')) {
+            arrayStart = start + head[0].length - 1;
+        } else {
+            // Only the function's own body, not the rest of the module
+            const open = head ? start + head[0].length - 1 : start - 1;
+            const body = source.slice(open, SvelteConfigUtils.findClosingBracket(source, open));
+            const array = /\breturn\s*\[/.exec(body);
+            if (!array) {
+                return null;
+            }
+            arrayStart = open + array.index + array[0].length - 1;
+        }
+
+        const value = SvelteConfigUtils.readLiteral(source, arrayStart);
+        const isEntry = (entry: StaticValue) =>
+            SvelteConfigUtils.isObject(entry) && Object.values(entry).every(param => typeof param === 'string');
+        return Array.isArray(value) && value.every(isEntry) ? (value as Record<string, string>[]) : null;
+    }
+
+    /**
+     * Whether any of a route's server modules looks like it only serves
+     * signed-in users, e.g. redirects to a login page or reads `locals.user`
+     */
+    static hasAuthGuard(files: string[]): boolean {
+        return files
+            .filter(file => /\.server\.[jt]s$/.test(file))
+            .some(file => AUTH_GUARD_PATTERN.test(this.read(file)));
+    }
+
+    /**
+     * Adds or removes the trailing slash of a pathname the way SvelteKit
+     * redirects it. `ignore` serves both, the canonical form has none.
+     */
+    static applyTrailingSlash(pathname: string, trailingSlash: TrailingSlash): string {
+        if (pathname === '/') {
+            return pathname;
+        }
+        const trimmed = pathname.replace(/\/+$/, '');
+        return trailingSlash === 'always' ? `${trimmed}/` : trimmed;
+    }
+
+    private static read(filePath: string): string {
+        try {
+            return fs.readFileSync(filePath, 'utf8');
+        } catch {
+            return '';
+        }
+    }
+}
@@ -0,0 +1,232 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as vm from 'vm';
+import * as vscode from 'vscode';
+import { transform } from 'sucrase';
+import { SvelteKitFiles } from '../constant/type';
+
+type MatchFunction = (param: string) => boolean;
+
+interface LoadedMatcher {
+    filePath: string;
+    match: MatchFunction | null;
+    context?: vm.Context;   // Where the match function is called, one per matcher
+    error?: string;
+}
+
+/**
+ * Used when a project matcher can't be evaluated, e.g. because it imports a package
+ */
+const BUILTIN_MATCHERS: { [key: string]: RegExp } = {
+    integer: /^\d+$/,
+    float: /^\d*\.?\d+$/,
+    alpha: /^[a-zA-Z]+$/,
+    alphanumeric: /^[a-zA-Z0-9]+$/,
+    uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    date: /^\d{4}-\d{2}-\d{2}$/,
+};
+
+const MATCHER_EXTENSIONS = ['.ts', '.js'];
+
+// Matchers are user code, don't let a runaway regex freeze the extension host
+const EVALUATION_TIMEOUT = 500;
+
+const MATCH_CALL = new vm.Script('match(value)');
+
+/**
+ * Loads the project's param matchers (`src/params/*.ts`) and evaluates
+ * them in an isolated context. Loaded matchers are kept until the params
+ * directory changes.
+ */
+export class ParamMatcherRegistry implements vscode.Disposable {
+    private matchers = new Map<string, LoadedMatcher | null>();
+    // Matchers whose problem was shown, until their file changes
+    private reported = new Set<string>();
+    private watcher: vscode.FileSystemWatcher;
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    // Bumped whenever a matcher file changes, for results that depend on the matchers
+    version = 0;
+
+    constructor(private readonly kitFiles: SvelteKitFiles) {
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(kitFiles.params, '**'));
+        this.watcher.onDidChange(uri => this.clear(uri.fsPath));
+        this.watcher.onDidCreate(uri => this.clear(uri.fsPath));
+        this.watcher.onDidDelete(uri => this.clear(uri.fsPath));
+    }
+
+    /**
+     * Returns the names of all matchers defined in the params directory
+     */
+    listMatchers(): string[] {
+        if (!fs.existsSync(this.kitFiles.params)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.kitFiles.params)
+            .filter(file => MATCHER_EXTENSIONS.includes(path.extname(file)) && !/\.(test|spec)\.[jt]s$/.test(file))
+            .map(file => path.basename(file, path.extname(file)));
+    }
+
+    getMatcherFile(name: string): string | null {
+        for (const ext of MATCHER_EXTENSIONS) {
+            const filePath = path.join(this.kitFiles.params, name + ext);
+            if (fs.existsSync(filePath)) {
+                return filePath;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Tests a param value against a matcher. Matchers that can't be found
+     * or evaluated are reported and never match, unless there's a built-in
+     * equivalent to fall back to.
+     */
+    match(name: string, value: string): boolean {
+        const matcher = this.load(name);
+
+        if (matcher?.context) {
+            try {
+                return this.run(matcher.context, value);
+            } catch (error) {
+                matcher.error = `threw while matching "${value}": ${this.describe(error)}`;
+            }
+        }
+
+        const builtin = BUILTIN_MATCHERS[name];
+        if (builtin) {
+            if (matcher?.error) {
+                this.report(name, `Param matcher "${name}" could not be evaluated (${matcher.error}), using the built-in "${name}" matcher instead.`);
+            }
+            return builtin.test(value);
+        }
+
+        if (matcher) {
+            this.report(name, `Param matcher "${name}" could not be evaluated: ${matcher.error}`);
+        } else {
+            this.report(name, `Unknown param matcher "${name}": no ${name}.ts or ${name}.js in ${this.kitFiles.params}`);
+        }
+        return false;
+    }
+
+    dispose() {
+        this.watcher.dispose();
+        this._onDidChange.dispose();
+    }
+
+    private load(name: string): LoadedMatcher | null {
+        const cached = this.matchers.get(name);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const filePath = this.getMatcherFile(name);
+        if (!filePath) {
+            this.matchers.set(name, null);
+            return null;
+        }
+
+        const loaded: LoadedMatcher = { filePath, match: null };
+        try {
+            const exports = this.evaluate(filePath, new Map());
+            if (typeof exports.match === 'function') {
+                loaded.match = exports.match as MatchFunction;
+                loaded.context = vm.createContext({ match: loaded.match, value: '' });
+            } else {
+                loaded.error = `${path.basename(filePath)} does not export a match function`;
+            }
+        } catch (error) {
+            loaded.error = this.describe(error);
+        }
+
+        this.matchers.set(name, loaded);
+        return loaded;
+    }
+
+    /**
+     * Forgets the loaded matchers, as they may import the changed file. Only
+     * the matcher of the changed file gets a fresh chance to be reported.
+     */
+    private clear(filePath: string) {
+        this.matchers.clear();
+        this.reported.delete(path.basename(filePath, path.extname(filePath)));
+        this.version++;
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Transpiles a module to CommonJS and runs it in a fresh context. Only
+     * relative and `$lib` imports are followed, packages are not available.
+     */
+    private evaluate(filePath: string, seen: Map<string, Record<string, unknown>>): Record<string, unknown> {
+        const cached = seen.get(filePath);
+        if (cached) {
+            return cached;
+        }
+
+        const source = fs.readFileSync(filePath, 'utf8');
+        const { code } = transform(source, {
+            transforms: filePath.endsWith('.ts') ? ['typescript', 'imports'] : ['imports'],
+            filePath,
+        });
+
+        const module = { exports: {} as Record<string, unknown> };
+        seen.set(filePath, module.exports);
+
+        const sandboxRequire = (specifier: string) => {
+            const resolved = this.resolveImport(specifier, path.dirname(filePath));
+            if (!resolved) {
+                throw new Error(`cannot import "${specifier}" outside of the project`);
+            }
+            return this.evaluate(resolved, seen);
+        };
+
+        const context = vm.createContext({ module, exports: module.exports, require: sandboxRequire });
+        vm.runInContext(code, context, { filename: filePath, timeout: EVALUATION_TIMEOUT });
+
+        seen.set(filePath, module.exports);
+        return module.exports;
+    }
+
+    private resolveImport(specifier: string, fromDir: string): string | null {
+        let base: string;
+        if (specifier.startsWith('.')) {
+            base = path.resolve(fromDir, specifier);
+        } else if (specifier === '$lib' || specifier.startsWith('$lib/')) {
+            base = path.join(this.kitFiles.lib, specifier.slice('$lib'.length));
+        } else {
+            return null;
+        }
+
+        // TS sources import each other with .js extensions
+        const candidates = [
+            base,
+            base.replace(/\.js$/, '.ts'),
+            ...MATCHER_EXTENSIONS.map(ext => base + ext),
+            ...MATCHER_EXTENSIONS.map(ext => path.join(base, 'index' + ext)),
+        ];
+        return candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile()) ?? null;
+    }
+
+    /**
+     * Calls the matcher inside its context so the timeout applies
+     */
+    private run(context: vm.Context, value: string): boolean {
+        context.value = value;
+        return !!MATCH_CALL.runInContext(context, { timeout: EVALUATION_TIMEOUT });
+    }
+
+    private report(name: string, message: string) {
+        if (this.reported.has(name)) {
+            return;
+        }
+        this.reported.add(name);
+        vscode.window.showWarningMessage(message);
+    }
+
+    private describe(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
@@ -0,0 +1,202 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { WorkspaceConfig, WorkspaceProjectConfig } from '../constant/workspace-config.type';
+import { PackageManager } from '../constant/type';
+import { SvelteProject } from '../models/svelteProject';
+import { SvelteConfigUtils } from './svelteConfigUtils';
+
+const DEFAULT_PORT = 5173;
+
+// How deep to look for svelte.config files below a workspace folder
+const MAX_SEARCH_DEPTH = 4;
+
+const IGNORED_DIRS = new Set(['node_modules', 'build', 'dist', '.svelte-kit']);
+
+const LOCKFILES: [string, PackageManager][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lock', 'bun'],
+    ['bun.lockb', 'bun'],
+    ['package-lock.json', 'npm'],
+];
+
+/**
+ * Finds the SvelteKit projects of a workspace folder, either from the
+ * `projects`/`projectRoot` options of `.vscode/svelte-radar.json` or by
+ * looking for svelte.config files of apps that use `@sveltejs/kit`
+ */
+export class ProjectUtils {
+    static readWorkspaceConfig(workspaceRoot: string): WorkspaceConfig {
+        const configPath = path.join(workspaceRoot, '.vscode', 'svelte-radar.json');
+        if (!fs.existsSync(configPath)) {
+            return {};
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+        } catch (error) {
+            console.error('Error reading workspace config:', error);
+            return {};
+        }
+    }
+
+    /**
+     * Returns the projects of a workspace folder. Configured projects are
+     * used as is, otherwise the folder is searched for SvelteKit apps.
+     */
+    static resolveProjects(workspaceRoot: string, config: WorkspaceConfig): SvelteProject[] {
+        const defaultPort = config.port || DEFAULT_PORT;
+
+        if (config.projects?.length) {
+            return config.projects.map(entry => {
+                const project: WorkspaceProjectConfig = typeof entry === 'string' ? { root: entry } : entry;
+                const root = path.join(workspaceRoot, project.root);
+                return this.createProject(
+                    root,
+                    project.name || this.getProjectName(root),
+                    project.origin ?? config.origin,
+                    project.port,
+                    defaultPort
+                );
+            });
+        }
+
+        if (config.projectRoot) {
+            return [this.getDefaultProject(workspaceRoot, config)];
+        }
+
+        return this.findSvelteKitProjects(workspaceRoot)
+            .map(root => this.createProject(root, this.getProjectName(root), config.origin, undefined, defaultPort));
+    }
+
+    /**
+     * The single project at `projectRoot`, or the workspace folder itself
+     */
+    static getDefaultProject(workspaceRoot: string, config: WorkspaceConfig): SvelteProject {
+        const root = path.join(workspaceRoot, config.projectRoot || '');
+        return this.createProject(root, this.getProjectName(root), config.origin, undefined, config.port || DEFAULT_PORT);
+    }
+
+    /**
+     * Creates a project served on the given origin. A project's own port
+     * replaces the port of the origin, so projects can share one origin.
+     * Without an origin, the project runs on localhost.
+     */
+    private static createProject(
+        root: string,
+        name: string,
+        origin: string | undefined,
+        port: number | undefined,
+        defaultPort: number
+    ): SvelteProject {
+        if (!origin) {
+            return new SvelteProject(root, name, port || defaultPort);
+        }
+
+        let url: URL;
+        try {
+            url = new URL(origin);
+        } catch {
+            console.error(`Invalid origin "${origin}" for ${name}, falling back to localhost`);
+            return new SvelteProject(root, name, port || defaultPort);
+        }
+
+        if (port) {
+            url.port = String(port);
+        }
+        const urlPort = url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80;
+        return new SvelteProject(root, name, urlPort, url.origin);
+    }
+
+    /**
+     * Searches a directory for SvelteKit apps, skipping dependencies and build output
+     */
+    static findSvelteKitProjects(dir: string, depth: number = 0): string[] {
+        if (this.isSvelteKitProject(dir)) {
+            return [dir];
+        }
+        if (depth >= MAX_SEARCH_DEPTH) {
+            return [];
+        }
+
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+
+        return entries
+            .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name))
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .flatMap(entry => this.findSvelteKitProjects(path.join(dir, entry.name), depth + 1));
+    }
+
+    /**
+     * A directory is a SvelteKit app when it has a svelte.config that uses
+     * `@sveltejs/kit`, either through its package.json or its imports
+     */
+    static isSvelteKitProject(dir: string): boolean {
+        const configFile = SvelteConfigUtils.findConfigFile(dir);
+        if (!configFile) {
+            return false;
+        }
+
+        const packageJson = this.readPackageJson(dir);
+        if (packageJson) {
+            const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+            if ('@sveltejs/kit' in dependencies) {
+                return true;
+            }
+        }
+
+        // Adapters are only used by SvelteKit apps, unlike vite-plugin-svelte
+        const source = fs.readFileSync(configFile, 'utf8');
+        return /['"]@sveltejs\/(kit|adapter-[\w-]+)['"]/.test(source);
+    }
+
+    /**
+     * Returns the scripts of a project's package.json
+     */
+    static getScripts(root: string): Record<string, string> {
+        return this.readPackageJson(root)?.scripts ?? {};
+    }
+
+    /**
+     * Finds the package manager of a project from the closest lockfile,
+     * which is at the monorepo root for workspace packages
+     */
+    static detectPackageManager(root: string): PackageManager {
+        let dir = root;
+        while (true) {
+            const lockfile = LOCKFILES.find(([file]) => fs.existsSync(path.join(dir, file)));
+            if (lockfile) {
+                return lockfile[1];
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                return 'npm';
+            }
+            dir = parent;
+        }
+    }
+
+    static readPackageJson(
+        dir: string
+    ): { name?: string; scripts?: Record<string, string>; dependencies?: object; devDependencies?: object } | null {
+        const packagePath = path.join(dir, 'package.json');
+        if (!fs.existsSync(packagePath)) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(packagePath, 'utf8'));
+        } catch {
+            return null;
+        }
+    }
+
+    private static getProjectName(root: string): string {
+        return this.readPackageJson(root)?.name || path.basename(root);
+    }
+}
@@ -0,0 +1,197 @@
+import { RouteProblem, RouteSegmentParam } from '../constant/type';
+import { RouteMatchingUtils } from './routeMatchingUtils';
+import { RouteUtils } from './routeUtils';
+
+// Routes with more combinations of optional and rest params aren't checked for reachability
+const MAX_SAMPLES = 256;
+
+interface CollectedRoute {
+    id: string;
+    filePath: string;
+}
+
+/**
+ * Finds routes that SvelteKit refuses to build because they match the same
+ * URLs, and routes that can never be rendered because another route wins
+ * every URL they match
+ */
+export class RouteConflictUtils {
+    static findProblems(routes: CollectedRoute[], matches: (matcher: string, value: string) => boolean): RouteProblem[] {
+        const conflicts = this.findConflicts(routes);
+        const conflicting = new Set(conflicts.map(problem => problem.routeId));
+
+        return [
+            ...conflicts,
+            ...this.findUnreachable(routes, matches).filter(problem => !conflicting.has(problem.routeId)),
+        ];
+    }
+
+    /**
+     * Finds routes matching the same URLs, like SvelteKit does when building the manifest.
+     * Each conflict is reported for both routes.
+     */
+    static findConflicts(routes: CollectedRoute[]): RouteProblem[] {
+        const problems: RouteProblem[] = [];
+        const seen = new Map<string, CollectedRoute>();
+
+        for (const route of routes) {
+            const conflicting = new Set<CollectedRoute>();
+            for (const key of this.getPermutations(route.id)) {
+                const other = seen.get(key);
+                if (!other) {
+                    seen.set(key, route);
+                } else if (other !== route) {
+                    conflicting.add(other);
+                }
+            }
+
+            for (const other of conflicting) {
+                const message = `The "${other.id}" and "${route.id}" routes conflict with each other`;
+                problems.push(
+                    this.createProblem('conflict', other, route, message),
+                    this.createProblem('conflict', route, other, message)
+                );
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Finds routes for which a higher ranked route matches every URL. Only
+     * routes without matchers count as winning, as a matcher might reject
+     * values we didn't try.
+     */
+    static findUnreachable(routes: CollectedRoute[], matches: (matcher: string, value: string) => boolean): RouteProblem[] {
+        const sorted = RouteMatchingUtils.sortRoutes(routes);
+        const parsed = new Map(sorted.map(route => [route, RouteMatchingUtils.parseRouteId(route.id)]));
+
+        const accepts = (route: CollectedRoute, pathname: string) => {
+            const { pattern, params } = parsed.get(route)!;
+            const match = pattern.exec(pathname);
+            return !!match && RouteMatchingUtils.exec(match, params, matches) !== undefined;
+        };
+
+        const problems: RouteProblem[] = [];
+        for (const route of sorted) {
+            // A static route only loses to a route with the same path, which is a conflict
+            if (parsed.get(route)!.params.length === 0) {
+                continue;
+            }
+
+            let winner: CollectedRoute | undefined;
+            for (const sample of this.getSamplePaths(route.id)) {
+                // Only URLs the route accepts itself tell us anything
+                if (!accepts(route, sample)) {
+                    continue;
+                }
+
+                const found = sorted.find(candidate => accepts(candidate, sample));
+                if (found === route || !found || parsed.get(found)!.params.some(param => param.matcher)) {
+                    winner = undefined;
+                    break;
+                }
+                winner = found;
+            }
+
+            if (winner) {
+                problems.push(this.createProblem(
+                    'unreachable',
+                    route,
+                    winner,
+                    `The "${route.id}" route is unreachable, "${winner.id}" takes precedence for every URL it matches`
+                ));
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Normalizes a route id the way SvelteKit does to detect conflicts: groups
+     * are removed and params replaced by their matcher, e.g. `/(app)/[id]` becomes `/<*>`
+     */
+    static normalizeRouteId(id: string): string {
+        return id
+            .replace(/(?<=^|\/)\(.+?\)(?=$|\/)/g, '')
+            .replace(/\[[ux]\+([0-9a-f]+)\]/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)).replace(/\//g, '%2f'))
+            .replace(
+                /\[(?:(\[)|(\.\.\.))?.+?(=.+?)?\]\]?/g,
+                (_, optional, rest, matcher) => `<${optional ? '?' : ''}${rest ?? ''}${matcher?.slice(1) ?? '*'}>`
+            );
+    }
+
+    /**
+     * Returns the normalized route id with and without each optional param
+     */
+    private static getPermutations(id: string): string[] {
+        const split = this.normalizeRouteId(id).split(/<\?(.+?)>/g);
+        let permutations = [split[0]];
+
+        for (let i = 1; i < split.length; i += 2) {
+            const matcher = split[i];
+            const next = split[i + 1];
+            permutations = permutations.flatMap(permutation => [
+                permutation + next,
+                ...(matcher === '*' && permutation.endsWith('//') ? [] : [`${permutation}<${matcher}>${next}`]),
+            ]);
+        }
+
+        // Skipped optional params leave duplicated, leading or trailing slashes
+        return permutations.map(permutation => permutation.replace(/\/{2,}/, '/').replace(/^\//, '').replace(/\/$/, ''));
+    }
+
+    /**
+     * URLs a route could match: every combination of skipped and filled in
+     * optional and rest params, with word and with numeric values
+     */
+    private static getSamplePaths(routeId: string): string[] {
+        const params = RouteUtils.getRouteParams(routeId);
+        const samples = new Set<string>();
+
+        for (const value of [(i: number) => `v${i}`, (i: number) => `${i + 1}`]) {
+            const candidates = params.map((param, i) => this.getSampleValues(param, value(i)));
+            const count = candidates.reduce((total, values) => total * values.length, 1);
+            if (count > MAX_SAMPLES) {
+                return [];
+            }
+
+            let combinations: Record<string, string>[] = [{}];
+            params.forEach((param, i) => {
+                combinations = combinations.flatMap(values =>
+                    candidates[i].map(candidate => ({ ...values, [param.name]: candidate }))
+                );
+            });
+
+            for (const values of combinations) {
+                samples.add(RouteMatchingUtils.resolveRoute(routeId, values));
+            }
+        }
+
+        return [...samples];
+    }
+
+    private static getSampleValues(param: RouteSegmentParam, value: string): string[] {
+        if (param.rest) {
+            // Rest params cover any number of segments, try a few depths
+            return ['', value, `${value}/${value}`, Array(8).fill(value).join('/')];
+        }
+        return param.optional ? ['', value] : [value];
+    }
+
+    private static createProblem(
+        kind: RouteProblem['kind'],
+        route: CollectedRoute,
+        other: CollectedRoute,
+        message: string
+    ): RouteProblem {
+        return {
+            kind,
+            routeId: route.id,
+            filePath: route.filePath,
+            otherRouteId: other.id,
+            otherFilePath: other.filePath,
+            message,
+        };
+    }
+}
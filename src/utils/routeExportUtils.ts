@@ -0,0 +1,160 @@
+import { RouteExportFormat, RouteExportOptions, RouteManifest, RouteManifestEntry } from '../constant/type';
+import { RouteUtils } from './routeUtils';
+
+const INCLUDE_ALL: RouteExportOptions = { groups: true, endpoints: true, errorPages: true };
+
+export const EXPORT_EXTENSIONS: Record<RouteExportFormat, string> = {
+    json: 'json',
+    markdown: 'md',
+    csv: 'csv',
+    mermaid: 'mmd',
+    graphviz: 'dot',
+};
+
+/**
+ * Writes the route manifest as JSON, a Markdown table, CSV or a diagram of
+ * the routes hierarchy
+ */
+export class RouteExportUtils {
+    /**
+     * Drops the groups, endpoints or error pages left out of an export.
+     * Directories without any remaining route files are dropped as well.
+     */
+    static filter(manifest: RouteManifest, options: RouteExportOptions): RouteManifest {
+        const routes = manifest.routes
+            .filter(route => options.groups || !this.isGroup(route))
+            .map(route => ({
+                ...route,
+                files: route.files.filter(file =>
+                    (options.endpoints || file.type !== 'server') && (options.errorPages || file.type !== 'error'))
+            }))
+            .filter(route => route.files.length > 0);
+
+        return { ...manifest, routes };
+    }
+
+    static format(manifest: RouteManifest, format: RouteExportFormat, options: RouteExportOptions = INCLUDE_ALL): string {
+        manifest = this.filter(manifest, options);
+        switch (format) {
+            case 'json':
+                return JSON.stringify(manifest, null, 2) + '\n';
+            case 'markdown':
+                return this.toMarkdown(manifest);
+            case 'csv':
+                return this.toCsv(manifest);
+            case 'mermaid':
+                return this.toMermaid(manifest, options.groups);
+            case 'graphviz':
+                return this.toGraphviz(manifest, options.groups);
+        }
+    }
+
+    private static toMarkdown(manifest: RouteManifest): string {
+        const cell = (value: string) => value.replace(/\|/g, '\\|') || '-';
+        const code = (values: string[]) => values.map(value => `\`${value}\``).join(', ');
+
+        const lines = [
+            '| Route | URL | Params | Files | Layouts |',
+            '| --- | --- | --- | --- | --- |',
+            ...manifest.routes.map(route => '| ' + [
+                `\`${route.id}\``,
+                `\`${manifest.base}${route.pattern === '/' && manifest.base ? '' : route.pattern}\``,
+                code(route.params.map(param => this.describeParam(param))),
+                code(route.files.map(file => file.path.slice(file.path.lastIndexOf('/') + 1))),
+                code(route.layouts) + (route.reset ? ` (resets to ${route.reset})` : '')
+            ].map(cell).join(' | ') + ' |')
+        ];
+        return lines.join('\n') + '\n';
+    }
+
+    private static toCsv(manifest: RouteManifest): string {
+        const field = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+        const rows = [
+            ['id', 'pattern', 'params', 'matchers', 'files', 'layouts', 'groups', 'reset'],
+            ...manifest.routes.map(route => [
+                route.id,
+                route.pattern,
+                route.params.map(param => this.describeParam(param)).join(' '),
+                route.matchers.join(' '),
+                route.files.map(file => file.path).join(' '),
+                route.layouts.join(' '),
+                route.groups.join(' '),
+                route.reset ?? ''
+            ])
+        ];
+        return rows.map(row => row.map(field).join(',')).join('\n') + '\n';
+    }
+
+    private static toMermaid(manifest: RouteManifest, groups: boolean): string {
+        const { nodes, edges } = this.getHierarchy(manifest, groups);
+        const ids = new Map(nodes.map((node, i) => [node.id, `r${i}`]));
+
+        const lines = [
+            'graph TD',
+            ...nodes.map(node => `\t${ids.get(node.id)}["${node.label.replace(/"/g, '#quot;')}"]`),
+            ...edges.map(([from, to]) => `\t${ids.get(from)} --> ${ids.get(to)}`)
+        ];
+        return lines.join('\n') + '\n';
+    }
+
+    private static toGraphviz(manifest: RouteManifest, groups: boolean): string {
+        const quote = (value: string) => `"${value.replace(/["\\]/g, match => `\\${match}`)}"`;
+        const { nodes, edges } = this.getHierarchy(manifest, groups);
+
+        const lines = [
+            'digraph routes {',
+            '\trankdir=LR;',
+            '\tnode [shape=box];',
+            ...nodes.map(node => `\t${quote(node.id)} [label=${quote(node.label)}];`),
+            ...edges.map(([from, to]) => `\t${quote(from)} -> ${quote(to)};`),
+            '}'
+        ];
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Links each route to the closest route above it. Nodes are labelled
+     * with the segments below their parent, e.g. `item/[id]` when `item`
+     * has no route files of its own. Without groups, group segments are
+     * left out of the labels too.
+     */
+    private static getHierarchy(manifest: RouteManifest, groups: boolean) {
+        const ids = new Set(manifest.routes.map(route => route.id));
+        const nodes: { id: string; label: string }[] = ids.has('/') ? [] : [{ id: '/', label: '/' }];
+        const edges: [string, string][] = [];
+
+        for (const route of manifest.routes) {
+            if (route.id === '/') {
+                nodes.push({ id: '/', label: '/' });
+                continue;
+            }
+
+            const segments = route.id.split('/').slice(1);
+            let depth = segments.length - 1;
+            while (depth > 0 && !ids.has('/' + segments.slice(0, depth).join('/'))) {
+                depth--;
+            }
+            const parent = '/' + segments.slice(0, depth).join('/');
+
+            const label = segments
+                .slice(depth)
+                .filter(segment => groups || RouteUtils.parseSegment(segment).group === null)
+                .join('/');
+            nodes.push({ id: route.id, label: label || '/' });
+            edges.push([parent, route.id]);
+        }
+
+        return { nodes, edges };
+    }
+
+    private static isGroup(route: RouteManifestEntry): boolean {
+        return RouteUtils.parseSegment(route.id.slice(route.id.lastIndexOf('/') + 1)).group !== null;
+    }
+
+    private static describeParam(param: RouteManifestEntry['params'][number]): string {
+        const name = param.rest ? `...${param.name}` : param.name;
+        const matcher = param.matcher ? `=${param.matcher}` : '';
+        return `${name}${matcher}${param.optional ? '?' : ''}`;
+    }
+}
@@ -0,0 +1,70 @@
+import { FileType, RouteFileKind } from '../constant/type';
+
+const ROUTE_FILE = /^\+(page|layout|error|server)(?:@([^.]*))?(\.server)?\.(svelte|ts|js)$/;
+
+/**
+ * Classifies SvelteKit route files. This is the single source of truth for
+ * which `+` files the tree, the badges and the URL matcher recognize.
+ */
+export class RouteFileUtils {
+    /**
+     * Returns what kind of route file this is, or null if SvelteKit
+     * wouldn't treat it as one (e.g. `+Page.svelte` or `+page.server.svelte`)
+     */
+    static classify(fileName: string): RouteFileKind | null {
+        const match = ROUTE_FILE.exec(fileName);
+        if (!match) {
+            return null;
+        }
+
+        const [, base, reset, server] = match;
+        const extension = match[4] as RouteFileKind['extension'];
+        const resetTarget = reset ?? null;
+
+        // Only page and layout components can reset
+        if (resetTarget !== null && (extension !== 'svelte' || (base !== 'page' && base !== 'layout'))) {
+            return null;
+        }
+
+        const fileType = this.getFileType(base, !!server, extension);
+        return fileType ? { fileType, resetTarget, extension } : null;
+    }
+
+    static isRouteFile(fileName: string): boolean {
+        return this.classify(fileName) !== null;
+    }
+
+    /**
+     * Whether the file makes its directory a route that can be navigated to
+     */
+    static isLeaf(kind: RouteFileKind): boolean {
+        return kind.fileType === 'page' || kind.fileType === 'server';
+    }
+
+    static isLayout(kind: RouteFileKind): boolean {
+        return kind.fileType === 'layout' || kind.fileType === 'layoutClient' || kind.fileType === 'layoutServer';
+    }
+
+    private static getFileType(base: string, server: boolean, extension: RouteFileKind['extension']): FileType | null {
+        const isComponent = extension === 'svelte';
+
+        switch (base) {
+            case 'page':
+                if (isComponent) {
+                    return server ? null : 'page';
+                }
+                return server ? 'pageServer' : 'pageClient';
+            case 'layout':
+                if (isComponent) {
+                    return server ? null : 'layout';
+                }
+                return server ? 'layoutServer' : 'layoutClient';
+            case 'error':
+                return isComponent && !server ? 'error' : null;
+            case 'server':
+                return !isComponent && !server ? 'server' : null;
+            default:
+                return null;
+        }
+    }
+}
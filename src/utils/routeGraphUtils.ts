@@ -0,0 +1,131 @@
+import * as path from 'path';
+import { RouteGraph, RouteGraphContainer, RouteGraphEdge, RouteGraphNode, RouteManifest, RouteManifestEntry, RouteType } from '../constant/type';
+import { RouteUtils } from './routeUtils';
+
+const COLUMN_WIDTH = 190;
+const ROW_HEIGHT = 34;
+export const NODE_WIDTH = 150;
+
+// Which file a click opens, first found wins
+const OPEN_ORDER = ['page', 'server', 'layout', 'error'];
+
+/**
+ * Lays out the routes tree as a graph, left to right, with one row per leaf
+ */
+export class RouteGraphUtils {
+    /**
+     * Builds the graph of a project's route manifest. Directories without
+     * route files of their own are kept to connect the routes below them.
+     */
+    static build(manifest: RouteManifest, projectRoot: string): RouteGraph {
+        const entries = new Map(manifest.routes.map(route => [route.id, route]));
+        // The manifest lists parents first, so children keep its order
+        const children = new Map<string, string[]>([['/', []]]);
+        for (const route of manifest.routes) {
+            const segments = route.id.split('/').filter(Boolean);
+            segments.forEach((_, i) => {
+                const id = '/' + segments.slice(0, i + 1).join('/');
+                if (!children.has(id)) {
+                    children.set(id, []);
+                    children.get('/' + segments.slice(0, i).join('/'))!.push(id);
+                }
+            });
+        }
+
+        const nodes: RouteGraphNode[] = [];
+        const edges: RouteGraphEdge[] = [];
+        const containers: RouteGraphContainer[] = [];
+        let rows = 0;
+
+        // Returns the lowest and highest row of the subtree and its right edge
+        const place = (id: string, depth: number): { top: number; bottom: number; right: number } => {
+            const node = this.createNode(id, entries.get(id), projectRoot);
+            nodes.push(node);
+            node.x = depth * COLUMN_WIDTH;
+
+            const ids = children.get(id) ?? [];
+            let top = rows * ROW_HEIGHT;
+            let bottom = top;
+            let right = node.x + NODE_WIDTH;
+            if (ids.length === 0) {
+                rows++;
+            } else {
+                const bounds = ids.map(child => {
+                    edges.push({ from: id, to: child, kind: 'child' });
+                    return place(child, depth + 1);
+                });
+                top = bounds[0].top;
+                bottom = bounds[bounds.length - 1].bottom;
+                right = Math.max(right, ...bounds.map(bound => bound.right));
+            }
+            node.y = (top + bottom) / 2;
+
+            if (node.type === 'group') {
+                containers.push({
+                    id,
+                    label: node.label,
+                    x: node.x - 8,
+                    y: top - ROW_HEIGHT / 2 + 2,
+                    width: right - node.x + 16,
+                    height: bottom - top + ROW_HEIGHT - 4,
+                });
+            }
+            return { top, bottom, right };
+        };
+        const { right } = place('/', 0);
+
+        for (const route of manifest.routes) {
+            const target = this.getResetTarget(route);
+            if (target) {
+                edges.push({ from: route.id, to: target, kind: 'reset' });
+            }
+        }
+
+        return { nodes, edges, containers, width: right, height: rows * ROW_HEIGHT };
+    }
+
+    private static createNode(id: string, entry: RouteManifestEntry | undefined, projectRoot: string): RouteGraphNode {
+        const files = entry?.files ?? [];
+        const open = OPEN_ORDER
+            .map(type => files.find(file => file.type === type))
+            .find(file => file) ?? files[0];
+
+        return {
+            id,
+            label: id === '/' ? '/' : id.slice(id.lastIndexOf('/') + 1),
+            type: this.getType(id, entry),
+            filePath: open ? path.join(projectRoot, open.path) : null,
+            files: files.map(file => file.path.slice(file.path.lastIndexOf('/') + 1)),
+            reset: entry?.reset ?? null,
+            x: 0,
+            y: 0,
+        };
+    }
+
+    /**
+     * Routes are coloured by their segment, directories holding only a
+     * layout or an error page by that
+     */
+    private static getType(id: string, entry: RouteManifestEntry | undefined): RouteType {
+        const type = RouteUtils.getSegmentType(id.slice(id.lastIndexOf('/') + 1));
+        const fileTypes = (entry?.files ?? []).map(file => file.type);
+        if (type === 'group' || fileTypes.some(fileType => fileType === 'page' || fileType === 'server')) {
+            return type;
+        }
+        if (fileTypes.some(fileType => fileType === 'layout' || fileType === 'layoutClient' || fileType === 'layoutServer')) {
+            return 'layout';
+        }
+        return fileTypes.includes('error') ? 'error' : type;
+    }
+
+    /**
+     * The layout a reset page or layout renders in, the last one of its
+     * chain that isn't its own
+     */
+    private static getResetTarget(route: RouteManifestEntry): string | null {
+        if (route.reset === null) {
+            return null;
+        }
+        return route.layouts.filter(layout => layout !== route.id).pop() ?? null;
+    }
+}
@@ -0,0 +1,138 @@
+import { RouteHelperOptions, RouteHelperRoute, RouteSegmentParam } from '../constant/type';
+import { RouteMatchingUtils } from './routeMatchingUtils';
+import { RouteUtils } from './routeUtils';
+
+/**
+ * Generates a TypeScript module with a typed `route()` builder for every
+ * route, so paths like `/org/${orgId}/projects/${id}` don't have to be
+ * written by hand
+ */
+export class RouteHelperUtils {
+    static generate(routes: RouteHelperRoute[], options: RouteHelperOptions): string {
+        const sorted = [...routes].sort((a, b) => a.id.localeCompare(b.id));
+        const matchers = [...new Set(sorted.flatMap(route => this.getParams(route.id).map(param => param.matcher)))]
+            .filter((matcher): matcher is string => !!matcher && !!options.matcherImports[matcher])
+            .sort();
+
+        const lines = [
+            `// Generated by Svelte Radar from ${options.routesDir}, do not edit.`,
+            '// Run "Svelte Radar: Generate Route Helpers" to update it.',
+            '',
+            ...matchers.map(matcher =>
+                `import type { match as ${this.matcherAlias(matcher)} } from ${this.quote(options.matcherImports[matcher])};`),
+            ...(matchers.length > 0 ? [''] : []),
+            '// The type a matcher narrows a param to, like SvelteKit\'s generated types',
+            'type MatcherParam<M> = M extends ((param: string) => param is infer U extends string) ? U : string;',
+            '',
+            `const base = ${this.quote(options.base)};`,
+            '',
+            'export type RouteId =',
+            ...(sorted.length > 0 ? sorted.map(route => `\t| ${this.quote(route.id)}`) : ['\tnever']).map(
+                (line, i, union) => i === union.length - 1 ? `${line};` : line
+            ),
+            '',
+            'export type RouteParams = {',
+            ...sorted.map(route => `\t${this.quote(route.id)}: ${this.getParamsType(route.id, options)};`),
+            '};',
+            '',
+            'const builders: { [K in RouteId]: (params: RouteParams[K]) => string } = {',
+            ...sorted.map(route => `\t${this.quote(route.id)}: ${this.getBuilder(route)},`),
+            '};',
+            '',
+            '/**',
+            ' * Builds the path of a route, including the base path, e.g.',
+            ' * `route(\'/blog/[slug]\', { slug: \'hello\' })`',
+            ' */',
+            'export function route<T extends RouteId>(',
+            '\tid: T,',
+            '\t...[params]: Record<string, never> extends RouteParams[T] ? [params?: RouteParams[T]] : [params: RouteParams[T]]',
+            '): string {',
+            '\treturn builders[id]((params ?? {}) as RouteParams[T]);',
+            '}',
+            '',
+            'function join(segments: (string | undefined)[], trailingSlash = false): string {',
+            '\tconst pathname = `${base}/${segments.filter(Boolean).join(\'/\')}`;',
+            '\tif (pathname === \'/\') {',
+            '\t\treturn pathname;',
+            '\t}',
+            '\treturn pathname.replace(/\\/$/, \'\') + (trailingSlash ? \'/\' : \'\');',
+            '}',
+            ''
+        ];
+
+        return lines.join('\n');
+    }
+
+    private static getParams(routeId: string): RouteSegmentParam[] {
+        return RouteMatchingUtils.getRouteSegments(routeId)
+            .flatMap(segment => RouteUtils.parseSegment(segment).parts)
+            .filter((part): part is RouteSegmentParam => part.type === 'param');
+    }
+
+    /**
+     * Types a route's params, narrowed by their matchers. Optional and rest
+     * params may be left out, as they can be empty.
+     */
+    private static getParamsType(routeId: string, options: RouteHelperOptions): string {
+        const params = this.getParams(routeId);
+        if (params.length === 0) {
+            return 'Record<string, never>';
+        }
+
+        const properties = params.map(param => {
+            const type = param.matcher && options.matcherImports[param.matcher]
+                ? `MatcherParam<typeof ${this.matcherAlias(param.matcher)}>`
+                : 'string';
+            const key = this.isIdentifier(param.name) ? param.name : this.quote(param.name);
+            return `${key}${param.optional || param.rest ? '?' : ''}: ${type}`;
+        });
+        return `{ ${properties.join('; ')} }`;
+    }
+
+    /**
+     * Builds the function returning a route's path from its params, with
+     * groups left out and escapes like `[x+2f]` turned back into URL escapes
+     */
+    private static getBuilder(route: RouteHelperRoute): string {
+        const segments = RouteMatchingUtils.getRouteSegments(route.id).map(segment => {
+            const { parts } = RouteUtils.parseSegment(segment);
+            const [first] = parts;
+            if (parts.length === 1 && first.type === 'param') {
+                return this.access(first.name);
+            }
+            if (parts.every(part => part.type === 'literal')) {
+                return this.quote(parts.map(part => part.type === 'literal' ? this.encode(part.value) : '').join(''));
+            }
+            return '`' + parts
+                .map(part => part.type === 'literal'
+                    ? this.encode(part.value).replace(/[`\\]|\$\{/g, match => `\\${match}`)
+                    : `\${${this.access(part.name)}${part.optional || part.rest ? ' ?? \'\'' : ''}}`)
+                .join('') + '`';
+        });
+
+        const args = route.trailingSlash === 'always' ? `[${segments.join(', ')}], true` : `[${segments.join(', ')}]`;
+        const usesParams = this.getParams(route.id).length > 0;
+        return `(${usesParams ? 'params' : ''}) => join(${args})`;
+    }
+
+    // Characters that would otherwise end the segment or the path
+    private static encode(literal: string): string {
+        return literal.replace(/[/?#%]/g, char => encodeURIComponent(char));
+    }
+
+    private static access(param: string): string {
+        return this.isIdentifier(param) ? `params.${param}` : `params[${this.quote(param)}]`;
+    }
+
+    private static isIdentifier(name: string): boolean {
+        return /^[A-Za-z_$][\w$]*$/.test(name);
+    }
+
+    private static matcherAlias(matcher: string): string {
+        return `match_${matcher}`;
+    }
+
+    private static quote(value: string): string {
+        return `'${value.replace(/[\\']/g, match => `\\${match}`)}'`;
+    }
+}
@@ -0,0 +1,258 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { IndexedRouteDir } from '../constant/type';
+import { RouteFileUtils } from './routeFileUtils';
+
+// Batches the events of e.g. a folder being moved into a single refresh
+const CHANGE_DELAY = 100;
+
+/**
+ * In-memory index of a routes directory: its folders and their files.
+ * Built once asynchronously, then kept up to date by a file system watcher
+ * so the tree, search and URL matching never have to hit the disk.
+ */
+export class RouteIndex implements vscode.Disposable {
+    private dirs = new Map<string, IndexedRouteDir>();
+    private building: Promise<void> | undefined;
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private changeTimeout: NodeJS.Timeout | undefined;
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    // Bumped whenever the indexed folders or files change, for results derived from them
+    version = 0;
+
+    constructor(private readonly routesDir: string) {}
+
+    /**
+     * Resolves once the initial scan of the routes directory is done
+     */
+    ready(): Promise<void> {
+        if (!this.watcher) {
+            this.watch();
+        }
+
+        // Also rescan when the routes directory only appeared after the last scan
+        if (!this.building || (!this.dirs.has(this.routesDir) && fs.existsSync(this.routesDir))) {
+            this.building = this.build();
+        }
+        return this.building;
+    }
+
+    getDir(dir: string): IndexedRouteDir | undefined {
+        return this.dirs.get(dir);
+    }
+
+    /**
+     * Returns the route file names of a directory
+     */
+    listFiles(dir: string): string[] {
+        return this.dirs.get(dir)?.files ?? [];
+    }
+
+    /**
+     * Returns the names of the other files of a directory, which aren't route files
+     */
+    listOtherFiles(dir: string): string[] {
+        return this.dirs.get(dir)?.otherFiles ?? [];
+    }
+
+    listSubdirs(dir: string): string[] {
+        return this.dirs.get(dir)?.subdirs ?? [];
+    }
+
+    dispose() {
+        this.watcher?.dispose();
+        this._onDidChange.dispose();
+        if (this.changeTimeout) {
+            clearTimeout(this.changeTimeout);
+        }
+    }
+
+    private async build() {
+        this.dirs.clear();
+        this.version++;
+        if (fs.existsSync(this.routesDir)) {
+            await this.indexDir(this.routesDir);
+        }
+        this.version++;
+    }
+
+    /**
+     * Indexes a directory and everything below it. Symlinked directories are
+     * followed unless they lead back to a directory above, which would loop.
+     */
+    private async indexDir(dir: string, ancestors: Set<string> = new Set()) {
+        const entry: IndexedRouteDir = { dir, files: [], otherFiles: [], subdirs: [] };
+        this.dirs.set(dir, entry);
+
+        const chain = new Set(ancestors).add(await this.realpath(dir));
+
+        let children: fs.Dirent[];
+        try {
+            children = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+
+        for (const child of children.sort((a, b) => a.name.localeCompare(b.name))) {
+            if (child.name.startsWith('.')) {
+                continue;
+            }
+            if (await this.isDirectory(path.join(dir, child.name), child, chain)) {
+                entry.subdirs.push(child.name);
+            } else if (RouteFileUtils.isRouteFile(child.name)) {
+                entry.files.push(child.name);
+            } else {
+                entry.otherFiles.push(child.name);
+            }
+        }
+
+        await Promise.all(entry.subdirs.map(name => this.indexDir(path.join(dir, name), chain)));
+    }
+
+    private watch() {
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.routesDir, '**'));
+
+        // A rename shows up as a delete and a create, content changes don't affect routes
+        this.watcher.onDidCreate(uri => this.handleCreate(uri.fsPath));
+        this.watcher.onDidDelete(uri => this.handleDelete(uri.fsPath));
+    }
+
+    private async handleCreate(filePath: string) {
+        await this.ready();
+        if (!this.isIndexed(filePath)) {
+            return;
+        }
+
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(filePath);
+        } catch {
+            return;
+        }
+
+        const name = path.basename(filePath);
+        if (stat.isDirectory()) {
+            // A symlink to a folder above would loop like it would during a full scan
+            const ancestors = await this.getAncestors(path.dirname(filePath));
+            if (ancestors.has(await this.realpath(filePath))) {
+                return;
+            }
+            await this.indexDir(filePath, ancestors);
+            this.addName(this.ensureDir(path.dirname(filePath)).subdirs, name);
+        } else if (RouteFileUtils.isRouteFile(name)) {
+            this.addName(this.ensureDir(path.dirname(filePath)).files, name);
+        } else {
+            this.addName(this.ensureDir(path.dirname(filePath)).otherFiles, name);
+        }
+        this.changed();
+    }
+
+    private async handleDelete(filePath: string) {
+        await this.ready();
+
+        const name = path.basename(filePath);
+        const parent = this.dirs.get(path.dirname(filePath));
+
+        if (this.dirs.has(filePath)) {
+            // Watchers only report the deleted folder, not its contents
+            for (const dir of [...this.dirs.keys()]) {
+                if (dir === filePath || dir.startsWith(filePath + path.sep)) {
+                    this.dirs.delete(dir);
+                }
+            }
+            this.removeName(parent?.subdirs, name);
+        } else if (parent?.files.includes(name)) {
+            this.removeName(parent.files, name);
+        } else if (parent?.otherFiles.includes(name)) {
+            this.removeName(parent.otherFiles, name);
+        } else {
+            return;
+        }
+        this.changed();
+    }
+
+    /**
+     * Returns the entry of a directory, adding it (and its parents) if it isn't indexed yet
+     */
+    private ensureDir(dir: string): IndexedRouteDir {
+        let entry = this.dirs.get(dir);
+        if (!entry) {
+            entry = { dir, files: [], otherFiles: [], subdirs: [] };
+            this.dirs.set(dir, entry);
+            if (dir !== this.routesDir) {
+                this.addName(this.ensureDir(path.dirname(dir)).subdirs, path.basename(dir));
+            }
+        }
+        return entry;
+    }
+
+    /**
+     * Whether a path is inside the routes directory and not hidden
+     */
+    private isIndexed(filePath: string): boolean {
+        const relative = path.relative(this.routesDir, filePath);
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+            return false;
+        }
+        return !relative.split(path.sep).some(segment => segment.startsWith('.'));
+    }
+
+    private async isDirectory(filePath: string, entry: fs.Dirent, ancestors: Set<string>): Promise<boolean> {
+        if (!entry.isSymbolicLink()) {
+            return entry.isDirectory();
+        }
+        try {
+            return (await fs.promises.stat(filePath)).isDirectory() && !ancestors.has(await this.realpath(filePath));
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Returns the real paths of a directory and its parents up to the routes directory
+     */
+    private async getAncestors(dir: string): Promise<Set<string>> {
+        const ancestors = new Set<string>();
+        let current = dir;
+        while (true) {
+            ancestors.add(await this.realpath(current));
+            if (current === this.routesDir || path.dirname(current) === current) {
+                return ancestors;
+            }
+            current = path.dirname(current);
+        }
+    }
+
+    private async realpath(filePath: string): Promise<string> {
+        try {
+            return await fs.promises.realpath(filePath);
+        } catch {
+            return filePath;
+        }
+    }
+
+    private addName(names: string[], name: string) {
+        if (!names.includes(name)) {
+            names.push(name);
+            names.sort((a, b) => a.localeCompare(b));
+        }
+    }
+
+    private removeName(names: string[] | undefined, name: string) {
+        const index = names?.indexOf(name) ?? -1;
+        if (names && index !== -1) {
+            names.splice(index, 1);
+        }
+    }
+
+    private changed() {
+        this.version++;
+        if (this.changeTimeout) {
+            clearTimeout(this.changeTimeout);
+        }
+        this.changeTimeout = setTimeout(() => this._onDidChange.fire(), CHANGE_DELAY);
+    }
+}
@@ -0,0 +1,108 @@
+import { RouteLink } from '../constant/type';
+
+// Stands in for each interpolation in `RouteLink.template`
+export const LINK_WILDCARD = '*';
+
+// Where links start: an `href`/`action` attribute, quoted or as an expression, `goto(` or `redirect(status, `
+const LINK_START = /\b(?:(href|action|formaction)\s*=\s*(\{\s*)?|(goto)\s*\(\s*|(redirect)\s*\(\s*\d{3}\s*,\s*)(["'`])/g;
+
+// A link being typed: its start followed by a path without interpolations, up to the end of the text
+const LINK_PREFIX = new RegExp(`${LINK_START.source}(/[^"'\`?#\\s{}$]*)$`);
+
+/**
+ * Finds internal links in Svelte components and modules
+ */
+export class RouteLinkUtils {
+    /**
+     * Extracts the links to absolute paths within the app, e.g. `href="/blog"`
+     * or `goto(`/blog/${slug}`)`. External URLs and relative paths are skipped.
+     */
+    static extractLinks(source: string): RouteLink[] {
+        const links: RouteLink[] = [];
+
+        for (const match of source.matchAll(LINK_START)) {
+            const [opening, attribute, expression, goto, redirect, quote] = match;
+            const start = match.index! + opening.length;
+            // Svelte interpolates `{...}` in attribute values, JavaScript `${...}` in template literals
+            const interpolation = attribute && !expression ? '{' : quote === '`' ? '${' : null;
+
+            const link = this.readLink(source, start, quote, interpolation);
+            if (link) {
+                const kind = attribute === 'formaction' ? 'action' : (attribute ?? goto ?? redirect) as RouteLink['kind'];
+                links.push({ kind, ...link });
+            }
+        }
+
+        return links;
+    }
+
+    /**
+     * Returns the path of the link the text ends in, e.g. `/blog/` for
+     * `<a href="/blog/`, or null if the text doesn't end inside a link
+     */
+    static findLinkPrefix(text: string): string | null {
+        return LINK_PREFIX.exec(text)?.[6] ?? null;
+    }
+
+    /**
+     * Returns the link whose path contains an offset of the source
+     */
+    static findLinkAt(source: string, offset: number): RouteLink | undefined {
+        return this.extractLinks(source).find(link => link.start <= offset && offset <= link.end);
+    }
+
+    /**
+     * Reads the path of a string starting at `start`, up to its query, hash
+     * or closing quote
+     */
+    private static readLink(
+        source: string,
+        start: number,
+        quote: string,
+        interpolation: string | null
+    ): Omit<RouteLink, 'kind'> | null {
+        // Only absolute paths, `//host/path` is another origin
+        if (source[start] !== '/' || source[start + 1] === '/') {
+            return null;
+        }
+
+        let end = start;
+        let template = '';
+        let staticEnd: number | null = null;
+        while (end < source.length) {
+            const char = source[end];
+            if (char === quote || char === '?' || char === '#' || (char === '\n' && quote !== '`')) {
+                const path = source.slice(start, staticEnd ?? end);
+                return { path, dynamic: staticEnd !== null, template, start, end };
+            }
+            if (interpolation && source.startsWith(interpolation, end)) {
+                staticEnd ??= end;
+                template += LINK_WILDCARD;
+                end = this.skipInterpolation(source, end + interpolation.length);
+                continue;
+            }
+
+            const length = char === '\\' ? 2 : 1;
+            template += source.slice(end, end + length);
+            end += length;
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the index after the `}` closing an interpolation whose contents start at `pos`
+     */
+    private static skipInterpolation(source: string, pos: number): number {
+        let depth = 1;
+        while (pos < source.length && depth > 0) {
+            if (source[pos] === '{') {
+                depth++;
+            } else if (source[pos] === '}') {
+                depth--;
+            }
+            pos++;
+        }
+        return pos;
+    }
+}
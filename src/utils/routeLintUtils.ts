@@ -0,0 +1,184 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { FileType, RouteLintFix, RouteLintProblem } from '../constant/type';
+import { RouteFileUtils } from './routeFileUtils';
+import { RouteIndex } from './routeIndex';
+
+// Route files from before SvelteKit 1.0 and the files they became
+const LEGACY_FILES: Record<string, string> = {
+    'index.svelte': '+page.svelte',
+    '__layout.svelte': '+layout.svelte',
+    '__error.svelte': '+error.svelte'
+};
+
+// `[slug].svelte` or `[slug].json.ts`, pages and endpoints named after their route before SvelteKit 1.0
+const LEGACY_ROUTE_FILE = /^(.*\[[^\]]+\].*)\.(svelte|ts|js)$/;
+
+const FILE_TYPE_NAMES: Record<FileType, string> = {
+    page: 'page component',
+    pageClient: 'universal page module',
+    pageServer: 'server page module',
+    layout: 'layout component',
+    layoutClient: 'universal layout module',
+    layoutServer: 'server layout module',
+    error: 'error page',
+    server: 'endpoint'
+};
+
+/**
+ * Checks route folders against SvelteKit's naming rules, catching the
+ * files the tree silently skips because SvelteKit would too
+ */
+export class RouteLintUtils {
+    /**
+     * Lints every folder of a routes directory, as found in its route index.
+     * The index must be ready.
+     */
+    static lintRoutes(index: RouteIndex, routesDir: string): RouteLintProblem[] {
+        const problems: RouteLintProblem[] = [];
+        if (index.getDir(routesDir)) {
+            this.lintTree(index, routesDir, problems);
+        }
+        return problems;
+    }
+
+    /**
+     * Lints the files of one route folder. `hasPagesBelow` tells whether a
+     * subfolder has a page, which keeps the folder's layouts in use.
+     */
+    static lintDir(dir: string, fileNames: string[], hasPagesBelow: boolean): RouteLintProblem[] {
+        const problems: RouteLintProblem[] = [];
+        const routeFiles = new Map<FileType, string[]>();
+
+        for (const name of fileNames) {
+            const kind = RouteFileUtils.classify(name);
+            if (kind) {
+                routeFiles.set(kind.fileType, [...(routeFiles.get(kind.fileType) ?? []), name]);
+                continue;
+            }
+
+            const problem = this.lintFileName(dir, name, fileNames);
+            if (problem) {
+                problems.push(problem);
+            }
+        }
+
+        // SvelteKit refuses to pick one of e.g. +page.ts and +page.js, or +page.svelte and +page@.svelte
+        for (const [fileType, names] of routeFiles) {
+            if (names.length > 1) {
+                problems.push(...names.map(name => this.problem(dir, name, 'duplicate-route-file', 'error',
+                    `Only one ${FILE_TYPE_NAMES[fileType]} is allowed per route, found ${names.map(other => `"${other}"`).join(' and ')}`)));
+            }
+        }
+
+        if (!routeFiles.has('page')) {
+            for (const name of [...(routeFiles.get('pageClient') ?? []), ...(routeFiles.get('pageServer') ?? [])]) {
+                problems.push(this.problem(dir, name, 'page-without-component', 'warning',
+                    `"${name}" has no +page.svelte next to it, so there is no page to load data for`,
+                    [{ kind: 'create', title: 'Create +page.svelte', target: path.join(dir, '+page.svelte') }]));
+            }
+        }
+
+        if (!routeFiles.has('page') && !hasPagesBelow) {
+            const endpoint = routeFiles.get('server')?.[0];
+            const layouts = [
+                ...(routeFiles.get('layout') ?? []),
+                ...(routeFiles.get('layoutClient') ?? []),
+                ...(routeFiles.get('layoutServer') ?? [])
+            ];
+            for (const name of layouts) {
+                problems.push(this.problem(dir, name, 'layout-without-pages', 'warning', endpoint
+                    ? `"${name}" has no effect, layouts only apply to pages and "${endpoint}" is an endpoint`
+                    : `"${name}" has no effect, there are no pages below it`));
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Suggests the route file a misspelled `+` file was meant to be,
+     * e.g. +page.svelte for +Page.svelte or +page.server.svelte
+     */
+    static suggestFileName(fileName: string): string | null {
+        const lowerCase = fileName.toLowerCase();
+        // Components can't be server modules, and endpoints can't be components
+        const component = lowerCase.replace(/\.server(?=\.svelte$)/, '');
+        const page = component.replace(/^\+server\.svelte$/, '+page.svelte');
+
+        return [lowerCase, component, page].find(candidate => RouteFileUtils.isRouteFile(candidate)) ?? null;
+    }
+
+    /**
+     * Lints a folder and everything below it, returning whether it has a page
+     */
+    private static lintTree(index: RouteIndex, dir: string, problems: RouteLintProblem[]): boolean {
+        let hasPagesBelow = false;
+        for (const subdir of index.listSubdirs(dir)) {
+            hasPagesBelow = this.lintTree(index, path.join(dir, subdir), problems) || hasPagesBelow;
+        }
+
+        const fileNames = [...index.listFiles(dir), ...index.listOtherFiles(dir)].sort((a, b) => a.localeCompare(b));
+        problems.push(...this.lintDir(dir, fileNames, hasPagesBelow));
+        return hasPagesBelow || fileNames.some(name => RouteFileUtils.classify(name)?.fileType === 'page');
+    }
+
+    /**
+     * Checks a file SvelteKit doesn't treat as a route file
+     */
+    private static lintFileName(dir: string, name: string, fileNames: string[]): RouteLintProblem | null {
+        const renameTo = (target: string | null | undefined): RouteLintFix[] =>
+            target && !fileNames.includes(target)
+                ? [{ kind: 'rename', title: `Rename to ${target}`, target: path.join(dir, target) }]
+                : [];
+
+        if (name.startsWith('+')) {
+            const suggestion = this.suggestFileName(name);
+            return this.problem(dir, name, 'reserved-name', 'error',
+                `"${name}" is not a route file, SvelteKit reserves files prefixed with +`
+                    + (suggestion ? `. Did you mean "${suggestion}"?` : ''),
+                renameTo(suggestion));
+        }
+
+        // Only components, modules like server.ts or page.ts are often colocated helpers.
+        // A route that already has the component, e.g. error.svelte next to +error.svelte, uses it as one too.
+        const plus = RouteFileUtils.classify(`+${name}`);
+        if (plus && plus.extension === 'svelte' && plus.resetTarget === null
+            && !fileNames.some(other => RouteFileUtils.classify(other)?.fileType === plus.fileType)) {
+            return this.problem(dir, name, 'missing-plus', 'warning',
+                `"${name}" is ignored, route files start with +`,
+                renameTo(`+${name}`));
+        }
+
+        if (LEGACY_FILES[name]) {
+            return this.problem(dir, name, 'legacy-route-file', 'warning',
+                `"${name}" is ignored since SvelteKit 1.0, it is now "${LEGACY_FILES[name]}"`,
+                renameTo(LEGACY_FILES[name]));
+        }
+
+        const legacyRoute = LEGACY_ROUTE_FILE.exec(name);
+        if (legacyRoute) {
+            const [, segment, extension] = legacyRoute;
+            const target = extension === 'svelte' ? '+page.svelte' : `+server.${extension}`;
+            const targetPath = path.join(dir, segment, target);
+            return this.problem(dir, name, 'legacy-route-file', 'warning',
+                `"${name}" is ignored since SvelteKit 1.0, routes are folders now: "${segment}/${target}"`,
+                fs.existsSync(targetPath)
+                    ? []
+                    : [{ kind: 'move', title: `Move to ${segment}/${target}`, target: targetPath }]);
+        }
+
+        return null;
+    }
+
+    private static problem(
+        dir: string,
+        name: string,
+        code: RouteLintProblem['code'],
+        severity: RouteLintProblem['severity'],
+        message: string,
+        fixes: RouteLintFix[] = []
+    ): RouteLintProblem {
+        return { code, severity, filePath: path.join(dir, name), message, fixes };
+    }
+}
@@ -0,0 +1,362 @@
+import { ParsedRoute, RouteParam } from '../constant/type';
+import { RouteUtils } from './routeUtils';
+
+type SortPartType = 'static' | 'required' | 'optional' | 'rest';
+
+interface SortPart {
+    type: SortPartType;
+    content: string;
+    matched: boolean;
+}
+
+const EMPTY: SortPart = { type: 'static', content: '', matched: false };
+
+/**
+ * Route matching and ranking, ported from SvelteKit's `parse_route_id`,
+ * `exec` and `sort_routes` so URLs resolve to the same route as in the app
+ */
+export class RouteMatchingUtils {
+    /**
+     * Returns the segments of a route id that affect the URL (no groups)
+     */
+    static getRouteSegments(routeId: string): string[] {
+        return routeId
+            .slice(1)
+            .split('/')
+            .filter(segment => segment !== '' && !/^\([^)]+\)$/.test(segment));
+    }
+
+    /**
+     * Builds the URL pattern and param list for a route id like `/blog/[slug]`
+     */
+    static parseRouteId(routeId: string): ParsedRoute {
+        const params: RouteParam[] = [];
+
+        if (routeId === '/') {
+            return { pattern: /^\/$/, params };
+        }
+
+        const source = this.getRouteSegments(routeId)
+            .map(segment => {
+                const { parts } = RouteUtils.parseSegment(segment);
+
+                // /[...rest]/ and /[[optional]]/ could contain zero segments
+                const [first] = parts;
+                if (parts.length === 1 && first.type === 'param' && (first.rest || first.optional)) {
+                    params.push({ name: first.name, matcher: first.matcher, optional: first.optional, rest: first.rest, chained: true });
+                    return first.rest ? '(?:/([^]*))?' : '(?:/([^/]+))?';
+                }
+
+                const result = parts
+                    .map((part, i) => {
+                        if (part.type === 'literal') {
+                            return this.escape(part.value);
+                        }
+
+                        params.push({
+                            name: part.name,
+                            matcher: part.matcher,
+                            optional: part.optional,
+                            rest: part.rest,
+                            chained: part.rest && i === 0,
+                        });
+                        return part.rest ? '([^]*?)' : part.optional ? '([^/]*)?' : '([^/]+?)';
+                    })
+                    .join('');
+
+                return '/' + result;
+            })
+            .join('');
+
+        return { pattern: new RegExp(`^${source}/?$`), params };
+    }
+
+    /**
+     * Extracts the params of a pattern match, checking them against their
+     * matchers. Returns undefined when a matcher rejects a value.
+     */
+    static exec(
+        match: RegExpMatchArray,
+        params: RouteParam[],
+        matches: (matcher: string, value: string) => boolean
+    ): Record<string, string> | undefined {
+        const result: Record<string, string> = {};
+
+        const values = match.slice(1);
+        const valuesNeedingMatch = values.filter(value => value !== undefined);
+
+        let buffered = 0;
+
+        for (let i = 0; i < params.length; i += 1) {
+            const param = params[i];
+            let value: string | undefined = values[i - buffered];
+
+            // In the `[[a=b]]/.../[...rest]` case, if one or more optional params
+            // weren't matched, roll the skipped values into the rest
+            if (param.chained && param.rest && buffered) {
+                value = values
+                    .slice(i - buffered, i + 1)
+                    .filter(s => s)
+                    .join('/');
+                buffered = 0;
+            }
+
+            // An undefined value means this is an optional or rest param
+            if (value === undefined) {
+                if (param.rest) {
+                    result[param.name] = '';
+                }
+                continue;
+            }
+
+            if (!param.matcher || matches(param.matcher, value)) {
+                result[param.name] = value;
+
+                // Reset the buffer if the next param isn't the [...rest] and the next
+                // value is defined, otherwise the buffer would skip values
+                const nextParam = params[i + 1];
+                const nextValue = values[i + 1];
+                if (nextParam && !nextParam.rest && nextParam.optional && nextValue && param.chained) {
+                    buffered = 0;
+                }
+
+                // No more params and values, but all non-empty values have been matched
+                if (!nextParam && !nextValue && Object.keys(result).length === valuesNeedingMatch.length) {
+                    buffered = 0;
+                }
+                continue;
+            }
+
+            // In the `/[[a=b]]/...` case, if the value didn't satisfy the matcher,
+            // keep track of the skipped optional params and continue
+            if (param.optional && param.chained) {
+                buffered++;
+                continue;
+            }
+
+            // Otherwise the matcher rejected the value and the route doesn't match
+            return undefined;
+        }
+
+        if (buffered) {
+            return undefined;
+        }
+        return result;
+    }
+
+    /**
+     * Sorts routes from highest to lowest precedence. The first route whose
+     * pattern matches a URL (and whose matchers accept it) is the one SvelteKit renders.
+     */
+    static sortRoutes<T extends { id: string }>(routes: T[]): T[] {
+        const partsCache = new Map<string, SortPart[]>();
+
+        const getParts = (segment: string): SortPart[] => {
+            let parts = partsCache.get(segment);
+            if (!parts) {
+                parts = this.splitSegment(segment);
+                partsCache.set(segment, parts);
+            }
+            return parts;
+        };
+
+        return routes.sort((routeA, routeB) => {
+            const segmentsA = this.splitRouteId(routeA.id).map(getParts);
+            const segmentsB = this.splitRouteId(routeB.id).map(getParts);
+
+            for (let i = 0; i < Math.max(segmentsA.length, segmentsB.length); i += 1) {
+                const segmentA = segmentsA[i] ?? [EMPTY];
+                const segmentB = segmentsB[i] ?? [EMPTY];
+
+                for (let j = 0; j < Math.max(segmentA.length, segmentB.length); j += 1) {
+                    const a = segmentA[j];
+                    const b = segmentB[j];
+
+                    // The first part of each segment is always static (maybe empty),
+                    // then it alternates between dynamic and static
+                    const dynamic = j % 2 === 1;
+
+                    if (dynamic) {
+                        if (!a) {
+                            return -1;
+                        }
+                        if (!b) {
+                            return +1;
+                        }
+
+                        // The next static chunk, to handle [...rest] edge cases
+                        const nextA = segmentA[j + 1].content || segmentsA[i + 1]?.[0].content;
+                        const nextB = segmentB[j + 1].content || segmentsB[i + 1]?.[0].content;
+
+                        // `[...rest]/x` outranks `[...rest]`
+                        if (a.type === 'rest' && b.type === 'rest') {
+                            if (nextA && nextB) {
+                                continue;
+                            }
+                            if (nextA) {
+                                return -1;
+                            }
+                            if (nextB) {
+                                return +1;
+                            }
+                        }
+
+                        // `[...rest]/x` outranks `[required]` or `[required]/[required]`, but not `[required]/x`
+                        if (a.type === 'rest') {
+                            return nextA && !nextB ? -1 : +1;
+                        }
+                        if (b.type === 'rest') {
+                            return nextB && !nextA ? +1 : -1;
+                        }
+
+                        // A part with a matcher outranks one without
+                        if (a.matched !== b.matched) {
+                            return a.matched ? -1 : +1;
+                        }
+
+                        // Rest params are handled above, so this is `[required]` vs `[[optional]]`
+                        if (a.type !== b.type) {
+                            if (a.type === 'required') {
+                                return -1;
+                            }
+                            if (b.type === 'required') {
+                                return +1;
+                            }
+                        }
+                    } else if (a.content !== b.content) {
+                        // A shallower path outranks a deeper one
+                        if (a === EMPTY) {
+                            return -1;
+                        }
+                        if (b === EMPTY) {
+                            return +1;
+                        }
+                        return this.sortStatic(a.content, b.content);
+                    }
+                }
+            }
+
+            return routeA.id < routeB.id ? +1 : -1;
+        });
+    }
+
+    /**
+     * Percent-encodes param values for a URL, e.g. `a b?` -> `a%20b%3F`. Rest
+     * params keep their slashes, every other character that isn't allowed in
+     * a segment is encoded.
+     */
+    static encodeParams(routeId: string, params: Record<string, string>): Record<string, string> {
+        const rest = new Set(RouteUtils.getRouteParams(routeId).filter(param => param.rest).map(param => param.name));
+        return Object.fromEntries(Object.entries(params).map(([name, value]) => [
+            name,
+            rest.has(name) ? value.split('/').map(encodeURIComponent).join('/') : encodeURIComponent(value)
+        ]));
+    }
+
+    /**
+     * Builds the pathname of a route from its param values, like SvelteKit's
+     * `resolve_route`. Empty optional and rest params are left out.
+     */
+    static resolveRoute(routeId: string, params: Record<string, string>): string {
+        const segments = this.getRouteSegments(routeId).map(segment =>
+            RouteUtils.parseSegment(segment).parts
+                .map(part => {
+                    if (part.type === 'literal') {
+                        return part.value;
+                    }
+
+                    const value = params[part.name];
+                    if (!value && !part.optional && !part.rest) {
+                        throw new Error(`Missing parameter '${part.name}' in route ${routeId}`);
+                    }
+                    return value ?? '';
+                })
+                .join('')
+        );
+
+        return '/' + segments.filter(Boolean).join('/');
+    }
+
+    /**
+     * Decodes a URL pathname the way SvelteKit does before matching, leaving `%25` alone
+     */
+    static decodePathname(pathname: string): string {
+        return pathname
+            .split('%25')
+            .map(part => {
+                try {
+                    return decodeURI(part);
+                } catch {
+                    return part;
+                }
+            })
+            .join('%25');
+    }
+
+    private static splitRouteId(routeId: string): string[] {
+        // [[optional]] parts only count when they're at the very end, or followed only by groups
+        return this.getRouteSegments(routeId.replace(/\[\[[^\]]+\]\](?!(?:\/\([^/]+\))*$)/g, ''));
+    }
+
+    /**
+     * Splits a segment into alternating static and dynamic parts, starting
+     * and ending with a (possibly empty) static part
+     */
+    private static splitSegment(segment: string): SortPart[] {
+        const parts: SortPart[] = [];
+        let current: SortPart = { type: 'static', content: '', matched: false };
+
+        for (const part of RouteUtils.parseSegment(segment).parts) {
+            if (part.type === 'literal') {
+                current.content += part.value;
+                continue;
+            }
+
+            parts.push(current);
+            parts.push({
+                type: part.rest ? 'rest' : part.optional ? 'optional' : 'required',
+                content: part.matcher ? `${part.name}=${part.matcher}` : part.name,
+                matched: !!part.matcher,
+            });
+            current = { type: 'static', content: '', matched: false };
+        }
+
+        parts.push(current);
+        return parts;
+    }
+
+    /**
+     * Sorts two strings lexicographically, except `foobar` outranks `foo`
+     */
+    private static sortStatic(a: string, b: string): number {
+        if (a === b) {
+            return 0;
+        }
+
+        for (let i = 0; ; i += 1) {
+            const charA = a[i];
+            const charB = b[i];
+
+            if (charA !== charB) {
+                if (charA === undefined) {
+                    return +1;
+                }
+                if (charB === undefined) {
+                    return -1;
+                }
+                return charA < charB ? -1 : +1;
+            }
+        }
+    }
+
+    private static escape(str: string): string {
+        return str
+            .normalize()
+            .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+            // decodePathname leaves %, / ? and # encoded, so match their encoded forms
+            .replace(/%/g, '%25')
+            .replace(/\//g, '%2[Ff]')
+            .replace(/\\\?/g, '%3[Ff]')
+            .replace(/#/g, '%23');
+    }
+}
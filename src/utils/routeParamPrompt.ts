@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { RouteSegmentParam } from '../constant/type';
+import { ParamMatcherRegistry } from './paramMatcherRegistry';
+
+const STATE_KEY = 'svelteRadar.paramValues';
+
+/**
+ * Asks for the param values of a dynamic route, one input per param, and
+ * remembers the last values entered for each route
+ */
+export class RouteParamPrompt {
+    constructor(private readonly state: vscode.Memento) {}
+
+    /**
+     * Prompts for every param of a route. Returns undefined when cancelled.
+     */
+    async prompt(
+        routeKey: string,
+        routeId: string,
+        params: RouteSegmentParam[],
+        matchers: ParamMatcherRegistry
+    ): Promise<Record<string, string> | undefined> {
+        const remembered = this.getRemembered(routeKey);
+        const values: Record<string, string> = {};
+
+        for (const [index, param] of params.entries()) {
+            const value = await vscode.window.showInputBox({
+                title: `Open ${routeId} (${index + 1}/${params.length})`,
+                prompt: this.describe(param),
+                value: remembered[param.name] ?? '',
+                ignoreFocusOut: true,
+                validateInput: input => RouteParamPrompt.validate(param, input, matchers),
+            });
+
+            if (value === undefined) {
+                return undefined;
+            }
+            values[param.name] = value;
+        }
+
+        await this.state.update(STATE_KEY, { ...this.state.get(STATE_KEY, {}), [routeKey]: values });
+        return values;
+    }
+
+    /**
+     * Checks a param value the way SvelteKit would when resolving the route
+     */
+    static validate(param: RouteSegmentParam, value: string, matchers: ParamMatcherRegistry): string | null {
+        if (!value) {
+            return param.optional || param.rest ? null : `A value for [${param.name}] is required`;
+        }
+        if (value.startsWith('/') || value.endsWith('/')) {
+            return 'The value cannot start or end with a slash';
+        }
+        if (!param.rest && value.includes('/')) {
+            return 'Only rest params can contain slashes';
+        }
+        if (param.matcher && !matchers.match(param.matcher, value)) {
+            return `"${value}" does not match the "${param.matcher}" matcher`;
+        }
+        return null;
+    }
+
+    /**
+     * Returns the param values last entered for a route
+     */
+    getRemembered(routeKey: string): Record<string, string> {
+        return this.state.get<Record<string, Record<string, string>>>(STATE_KEY, {})[routeKey] ?? {};
+    }
+
+    private describe(param: RouteSegmentParam): string {
+        const matcher = param.matcher ? ` matching "${param.matcher}"` : '';
+        if (param.rest) {
+            return `Value for [...${param.name}]${matcher}, may contain slashes or be left empty`;
+        }
+        if (param.optional) {
+            return `Value for [[${param.name}]]${matcher}, leave empty to skip`;
+        }
+        return `Value for [${param.name}]${matcher}`;
+    }
+}
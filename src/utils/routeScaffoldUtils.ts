@@ -0,0 +1,329 @@
+import { RouteScaffoldFile, RouteScaffoldOptions, RouteScaffoldResult } from '../constant/type';
+import { RouteUtils } from './routeUtils';
+
+// `:slug`, `:id=integer`, `:lang?` and `*path`
+const PATTERN_PARAM = /:(\w+)(?:=(\w+))?(\?)?|\*(\w+)/g;
+
+// `{{ name }}` placeholders of project templates
+const TEMPLATE_VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+// What each file imports from its generated `./$types`
+const FILE_TYPES: Record<RouteScaffoldFile, string[]> = {
+    page: ['ActionData', 'PageData'],
+    pageServer: ['Actions', 'PageServerLoad'],
+    layout: ['LayoutData'],
+    error: [],
+    server: ['RequestHandler'],
+};
+
+/**
+ * Turns URL patterns like `/blog/:slug` into route directories and writes
+ * the starter files of a new route
+ */
+export class RouteScaffoldUtils {
+    /**
+     * Returns the route id a pattern creates below a parent route, e.g.
+     * `/docs/*path` -> `/docs/[...path]`. Segments already written in
+     * SvelteKit's syntax, like `(group)` or `[slug]`, are kept.
+     */
+    static toRouteId(parentId: string, pattern: string): string {
+        const segments = [
+            ...parentId.split('/'),
+            ...pattern.trim().split('/').map(segment => this.toSegment(segment))
+        ];
+        return '/' + segments.filter(Boolean).join('/');
+    }
+
+    /**
+     * Returns why a pattern can't be created below a parent route, or null
+     */
+    static validate(parentId: string, pattern: string, matchers: string[]): string | null {
+        const segments = pattern.trim().replace(/^\/|\/$/g, '').split('/');
+        if (segments.length > 1 && segments.some(segment => !segment)) {
+            return 'Segments cannot be empty';
+        }
+
+        for (const segment of segments) {
+            // They would lead out of the route's folder
+            if (segment === '.' || segment === '..') {
+                return 'Segments cannot be . or ..';
+            }
+            if (/^\(.+\)$/.test(segment) || segment.includes('[')) {
+                continue;
+            }
+
+            const optional = [...segment.matchAll(PATTERN_PARAM)].find(match => match[3]);
+            if (optional && optional[0] !== segment) {
+                return `Optional params must be a segment of their own, e.g. /:${optional[1]}?`;
+            }
+            const rest = segment.replace(PATTERN_PARAM, '');
+            if (/[:*]/.test(rest)) {
+                return 'Params need a name, e.g. :slug or *path';
+            }
+            if (/[?#]/.test(rest)) {
+                return 'Only params can be optional, e.g. :lang?';
+            }
+        }
+
+        const params = RouteUtils.getRouteParams(this.toRouteId(parentId, pattern));
+        const names = params.map(param => param.name);
+        const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+        if (duplicate) {
+            return `The route already has a "${duplicate}" param`;
+        }
+        const unknown = params.find(param => param.matcher && !matchers.includes(param.matcher));
+        if (unknown) {
+            return `There is no "${unknown.matcher}" param matcher`;
+        }
+        return null;
+    }
+
+    static getFileName(file: RouteScaffoldFile, typescript: boolean): string {
+        const script = typescript ? 'ts' : 'js';
+        switch (file) {
+            case 'page':
+                return '+page.svelte';
+            case 'pageServer':
+                return `+page.server.${script}`;
+            case 'layout':
+                return '+layout.svelte';
+            case 'error':
+                return '+error.svelte';
+            case 'server':
+                return `+server.${script}`;
+        }
+    }
+
+    /**
+     * Returns the starter content of each file, from the project's template
+     * of that file name when there is one. Without a template, the page
+     * receives the server load's data and form results when both are created.
+     */
+    static render(
+        files: RouteScaffoldFile[],
+        options: RouteScaffoldOptions,
+        templates: Record<string, string> = {}
+    ): RouteScaffoldResult[] {
+        return files.map(file => {
+            const fileName = this.getFileName(file, options.typescript);
+            const template = templates[fileName];
+            return {
+                fileName,
+                content: template === undefined
+                    ? this.renderFile(file, files.includes('pageServer'), options)
+                    : this.applyTemplate(template, this.getVariables(file, options))
+            };
+        });
+    }
+
+    /**
+     * Returns the values templates can use, e.g. for `/blog/[slug]`:
+     * `{{routeId}}`, `{{path}}` (/blog/:slug), `{{name}}` (BlogSlug),
+     * `{{params}}` (slug), `{{types}}` (Actions, PageServerLoad) and
+     * `{{typesImport}}`, the import of those types, empty in JavaScript
+     */
+    static getVariables(file: RouteScaffoldFile, { routeId, typescript }: RouteScaffoldOptions): Record<string, string> {
+        const types = FILE_TYPES[file];
+        return {
+            routeId,
+            path: this.getDisplayPath(routeId),
+            name: this.getName(routeId),
+            params: RouteUtils.getRouteParams(routeId).map(param => param.name).join(', '),
+            types: types.join(', '),
+            typesImport: typescript && types.length > 0 ? `import type { ${types.join(', ')} } from './$types';` : ''
+        };
+    }
+
+    /**
+     * Fills in the `{{ name }}` placeholders of a template, leaving unknown ones as is
+     */
+    static applyTemplate(template: string, variables: Record<string, string>): string {
+        return template.replace(TEMPLATE_VARIABLE, (match, name: string) =>
+            Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match);
+    }
+
+    private static toSegment(segment: string): string {
+        if (/^\(.+\)$/.test(segment) || segment.includes('[')) {
+            return segment;
+        }
+
+        return segment.replace(PATTERN_PARAM, (_, name, matcher, optional, rest) => {
+            if (rest) {
+                return `[...${rest}]`;
+            }
+            const param = matcher ? `${name}=${matcher}` : name;
+            return optional ? `[[${param}]]` : `[${param}]`;
+        });
+    }
+
+    private static renderFile(file: RouteScaffoldFile, hasServerLoad: boolean, options: RouteScaffoldOptions): string {
+        switch (file) {
+            case 'page':
+                return this.renderPage(hasServerLoad, options);
+            case 'pageServer':
+                return this.renderPageServer(options);
+            case 'layout':
+                return this.renderLayout(options);
+            case 'error':
+                return this.renderError(options);
+            case 'server':
+                return this.renderServer(options);
+        }
+    }
+
+    private static renderPage(hasServerLoad: boolean, { routeId, typescript, runes }: RouteScaffoldOptions): string {
+        const heading = `<h1>${this.getDisplayPath(routeId)}</h1>\n`;
+        if (!hasServerLoad) {
+            return heading;
+        }
+
+        let props: string[];
+        if (runes && typescript) {
+            props = [
+                `import type { ActionData, PageData } from './$types';`,
+                '',
+                'let { data, form }: { data: PageData; form: ActionData } = $props();'
+            ];
+        } else if (runes) {
+            props = [
+                `/** @type {{ data: import('./$types').PageData, form: import('./$types').ActionData }} */`,
+                'let { data, form } = $props();'
+            ];
+        } else if (typescript) {
+            props = [
+                `import type { ActionData, PageData } from './$types';`,
+                '',
+                'export let data: PageData;',
+                'export let form: ActionData;'
+            ];
+        } else {
+            props = [
+                `/** @type {import('./$types').PageData} */`,
+                'export let data;',
+                `/** @type {import('./$types').ActionData} */`,
+                'export let form;'
+            ];
+        }
+        return this.script(props, typescript) + '\n' + heading;
+    }
+
+    private static renderPageServer({ routeId, typescript }: RouteScaffoldOptions): string {
+        const load = RouteUtils.getRouteParams(routeId).length > 0 ? '{ params }' : '';
+        const lines = typescript
+            ? [
+                `import type { Actions, PageServerLoad } from './$types';`,
+                '',
+                `export const load: PageServerLoad = async (${load}) => {`,
+                '\treturn {};',
+                '};',
+                '',
+                'export const actions: Actions = {'
+            ]
+            : [
+                `/** @type {import('./$types').PageServerLoad} */`,
+                `export async function load(${load}) {`,
+                '\treturn {};',
+                '}',
+                '',
+                `/** @type {import('./$types').Actions} */`,
+                'export const actions = {'
+            ];
+
+        return [
+            ...lines,
+            '\tdefault: async ({ request }) => {',
+            '\t\tconst data = await request.formData();',
+            '',
+            '\t\treturn { success: true };',
+            '\t}',
+            '};',
+            ''
+        ].join('\n');
+    }
+
+    private static renderLayout({ typescript, runes }: RouteScaffoldOptions): string {
+        if (!runes) {
+            return '<slot />\n';
+        }
+
+        const props = typescript
+            ? [
+                `import type { Snippet } from 'svelte';`,
+                '',
+                'let { children }: { children: Snippet } = $props();'
+            ]
+            : [
+                `/** @type {{ children: import('svelte').Snippet }} */`,
+                'let { children } = $props();'
+            ];
+        return this.script(props, typescript) + '\n{@render children()}\n';
+    }
+
+    private static renderError({ typescript }: RouteScaffoldOptions): string {
+        return this.script([`import { page } from '$app/stores';`], typescript) +
+            '\n<h1>{$page.status}</h1>\n<p>{$page.error?.message}</p>\n';
+    }
+
+    private static renderServer({ routeId, typescript, methods }: RouteScaffoldOptions): string {
+        const params = RouteUtils.getRouteParams(routeId).length > 0 ? '{ params }' : '';
+        const handlers = methods.map(method => {
+            const [args, body] = method === 'GET'
+                ? [params, ['\treturn json({});']]
+                : method === 'DELETE'
+                    ? [params, ['\treturn new Response(null, { status: 204 });']]
+                    : ['{ request }', [
+                        '\tconst body = await request.json();',
+                        '',
+                        `\treturn json(body${method === 'POST' ? ', { status: 201 }' : ''});`
+                    ]];
+
+            return typescript
+                ? [`export const ${method}: RequestHandler = async (${args}) => {`, ...body, '};']
+                : [`/** @type {import('./$types').RequestHandler} */`, `export async function ${method}(${args}) {`, ...body, '}'];
+        });
+
+        const imports = [
+            ...methods.some(method => method !== 'DELETE') ? [`import { json } from '@sveltejs/kit';`] : [],
+            ...typescript ? [`import type { RequestHandler } from './$types';`] : []
+        ];
+        return [
+            ...imports.length > 0 ? [...imports, ''] : [],
+            ...handlers.flatMap((handler, i) => i > 0 ? ['', ...handler] : handler),
+            ''
+        ].join('\n');
+    }
+
+    private static script(lines: string[], typescript: boolean): string {
+        return [
+            typescript ? '<script lang="ts">' : '<script>',
+            ...lines.map(line => line ? `\t${line}` : line),
+            '</script>',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * A PascalCase name of the route from its segments and param names,
+     * e.g. `BlogPostSlug` for `/(app)/blog-post/[slug]`
+     */
+    private static getName(routeId: string): string {
+        const words = routeId
+            .split('/')
+            .flatMap(segment => RouteUtils.parseSegment(segment).parts)
+            .flatMap(part => (part.type === 'literal' ? part.value : part.name).split(/[^A-Za-z0-9]+/))
+            .filter(Boolean);
+        const name = words.map(word => word[0].toUpperCase() + word.slice(1)).join('') || 'Index';
+        return /^\d/.test(name) ? `Route${name}` : name;
+    }
+
+    /**
+     * The URL a route serves, e.g. `/blog/:slug` for `/(app)/blog/[slug]`
+     */
+    private static getDisplayPath(routeId: string): string {
+        const segments = routeId
+            .split('/')
+            .filter(segment => segment && RouteUtils.parseSegment(segment).group === null)
+            .map(segment => RouteUtils.formatSegment(segment));
+        return '/' + segments.join('/');
+    }
+}
@@ -1,6 +1,4 @@
-import * as path from 'path';
-import * as fs from 'fs';
-import * as vscode from 'vscode';
+import { ParsedSegment, RouteSegmentParam, RouteSegmentPart, RouteType } from '../constant/type';
 
 export class RouteUtils {
     /**
@@ -8,18 +6,142 @@ export class RouteUtils {
      */
     static decodeRoutePath(path: string): string {
         // Handle hex encodings like [x+3a] for ':'
-        path = path.replace(/\[x\+([0-9a-f]{2})\]/g, (_, hex) =>
+        path = path.replace(/\[x\+([0-9a-f]{2})\]/gi, (_, hex) =>
             String.fromCharCode(parseInt(hex, 16))
         );
 
-        // Handle Unicode encodings like [u+1f600] for emoji
-        path = path.replace(/\[u\+([0-9a-f]{4,5})\]/g, (_, hex) =>
-            String.fromCodePoint(parseInt(hex, 16))
-        );
+        // Handle Unicode encodings like [u+1f600] for emoji, or [u+d83d-de00] for surrogate pairs
+        path = path.replace(/\[u\+([0-9a-f]{4,6}(?:-[0-9a-f]{4,6})*)\]/gi, (_, hex: string) => {
+            const codes = hex.split('-').map(code => parseInt(code, 16));
+            return codes.length > 1 ? String.fromCharCode(...codes) : String.fromCodePoint(codes[0]);
+        });
 
         return path;
     }
 
+    /**
+     * Splits a route directory name into literal and parameter parts,
+     * e.g. `post-[slug=word]` -> `post-` + slug (matcher: word)
+     */
+    static parseSegment(segment: string): ParsedSegment {
+        const groupMatch = /^\(([^)]+)\)$/.exec(segment);
+        if (groupMatch) {
+            return { raw: segment, group: groupMatch[1], parts: [] };
+        }
+
+        const parts: RouteSegmentPart[] = [];
+        const addLiteral = (value: string) => {
+            const last = parts[parts.length - 1];
+            if (last?.type === 'literal') {
+                last.value += value;
+            } else if (value) {
+                parts.push({ type: 'literal', value });
+            }
+        };
+
+        let i = 0;
+        while (i < segment.length) {
+            const start = segment.indexOf('[', i);
+            if (start === -1) {
+                addLiteral(segment.slice(i));
+                break;
+            }
+            addLiteral(segment.slice(i, start));
+
+            const optional = segment[start + 1] === '[';
+            const delimiter = optional ? ']]' : ']';
+            const end = segment.indexOf(delimiter, start);
+            if (end === -1) {
+                // Unbalanced brackets aren't a valid param, keep them as text
+                addLiteral(segment.slice(start));
+                break;
+            }
+
+            const content = segment.slice(start + (optional ? 2 : 1), end);
+            i = end + delimiter.length;
+
+            // [x+2f] and [u+1f600] escapes are literal characters
+            if (!optional && /^[xu]\+[0-9a-f-]+$/i.test(content)) {
+                addLiteral(this.decodeRoutePath(segment.slice(start, i)));
+                continue;
+            }
+
+            const paramMatch = /^(\.\.\.)?(\w+)(?:=(\w+))?$/.exec(content);
+            if (!paramMatch) {
+                addLiteral(segment.slice(start, i));
+                continue;
+            }
+
+            parts.push({
+                type: 'param',
+                name: paramMatch[2],
+                matcher: paramMatch[3],
+                optional,
+                rest: !!paramMatch[1]
+            });
+        }
+
+        return { raw: segment, group: null, parts };
+    }
+
+    /**
+     * Classifies a route directory by its parameters
+     */
+    static getSegmentType(segment: string): RouteType {
+        const parsed = this.parseSegment(segment);
+        if (parsed.group !== null) {
+            return 'group';
+        }
+
+        const params = parsed.parts.filter(part => part.type === 'param');
+        if (params.length === 0) {
+            return 'static';
+        }
+        if (params.some(param => param.rest)) {
+            return 'rest';
+        }
+        if (params.some(param => param.optional)) {
+            return 'optional';
+        }
+        if (params.some(param => param.matcher)) {
+            return 'matcher';
+        }
+        return 'dynamic';
+    }
+
+    /**
+     * Formats a route directory name for display: `[slug]` -> `:slug`,
+     * `[[lang]]` -> `:lang?`, `[...path]` -> `*path`, `v[x+2e]1` -> `v.1`
+     */
+    static formatSegment(segment: string): string {
+        const parsed = this.parseSegment(segment);
+        if (parsed.group !== null) {
+            return segment;
+        }
+
+        return parsed.parts
+            .map(part => {
+                if (part.type === 'literal') {
+                    return part.value;
+                }
+                if (part.rest) {
+                    return `*${part.name}`;
+                }
+                return part.optional ? `:${part.name}?` : `:${part.name}`;
+            })
+            .join('');
+    }
+
+    /**
+     * Returns every parameter in a route path, in order
+     */
+    static getRouteParams(routePath: string): RouteSegmentParam[] {
+        return routePath
+            .split(/[\\/]/)
+            .flatMap(segment => this.parseSegment(segment).parts)
+            .filter((part): part is RouteSegmentParam => part.type === 'param');
+    }
+
     /**
     * Normalizes route path for display
     */
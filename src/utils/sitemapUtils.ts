@@ -0,0 +1,74 @@
+import { RouteMatchingUtils } from './routeMatchingUtils';
+import { RouteUtils } from './routeUtils';
+
+/**
+ * Expands routes into the URLs of a sitemap and writes sitemap.xml
+ */
+export class SitemapUtils {
+    /**
+     * Returns the pathnames of a route for each set of param values, leaving
+     * out sets that miss a required param or that a matcher rejects. Routes
+     * whose params are all optional also serve the pathname without them.
+     */
+    static expandRoute(
+        routeId: string,
+        entries: Record<string, string>[],
+        match: (matcher: string, value: string) => boolean = () => true
+    ): string[] {
+        const params = RouteUtils.getRouteParams(routeId);
+        if (params.length === 0) {
+            return [RouteMatchingUtils.resolveRoute(routeId, {})];
+        }
+
+        const pathnames = entries
+            .filter(entry => params.every(param => {
+                const value = entry[param.name];
+                if (!value) {
+                    return param.optional || param.rest;
+                }
+                return !param.matcher || match(param.matcher, value);
+            }))
+            .map(entry => RouteMatchingUtils.resolveRoute(routeId, entry));
+
+        if (pathnames.length === 0 && params.every(param => param.optional)) {
+            pathnames.push(RouteMatchingUtils.resolveRoute(routeId, {}));
+        }
+        return [...new Set(pathnames)];
+    }
+
+    /**
+     * Returns why the contents of a params file aren't route ids mapped to
+     * lists of param values, e.g. `{ "/blog/[slug]": [{ "slug": "hello" }] }`,
+     * or null
+     */
+    static validateParamsFile(paramsFile: unknown): string | null {
+        if (typeof paramsFile !== 'object' || paramsFile === null || Array.isArray(paramsFile)) {
+            return 'Expected an object mapping route ids to param values';
+        }
+
+        const isEntry = (entry: unknown) =>
+            typeof entry === 'object' && entry !== null && !Array.isArray(entry)
+            && Object.values(entry).every(value => typeof value === 'string');
+        for (const [routeId, entries] of Object.entries(paramsFile)) {
+            if (!Array.isArray(entries) || !entries.every(isEntry)) {
+                return `"${routeId}" must be a list of param values like [{ "slug": "hello" }]`;
+            }
+        }
+        return null;
+    }
+
+    static toXml(urls: string[]): string {
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+            ...urls.map(url => `\t<url>\n\t\t<loc>${this.escape(encodeURI(url))}</loc>\n\t</url>`),
+            '</urlset>',
+            ''
+        ].join('\n');
+    }
+
+    private static escape(value: string): string {
+        const entities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+        return value.replace(/[&<>"']/g, char => entities[char]);
+    }
+}
@@ -0,0 +1,327 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { SvelteKitFiles } from '../constant/type';
+
+/**
+ * A value read statically from a config file. `undefined` means the value
+ * is an expression we can't resolve without running the config.
+ */
+export type StaticValue = string | number | boolean | null | undefined | StaticValue[] | StaticObject;
+
+export interface StaticObject {
+    [key: string]: StaticValue;
+}
+
+const CONFIG_FILES = ['svelte.config.js', 'svelte.config.mjs', 'svelte.config.cjs', 'svelte.config.ts'];
+
+const VITE_CONFIG_FILES = ['vite.config.js', 'vite.config.mjs', 'vite.config.cjs', 'vite.config.ts', 'vite.config.mts', 'vite.config.cts'];
+
+export class SvelteConfigUtils {
+    /**
+     * Finds the svelte.config file (or one of the given config files) of a project, if there is one
+     */
+    static findConfigFile(projectRoot: string, candidates: string[] = CONFIG_FILES): string | null {
+        for (const file of candidates) {
+            const configPath = path.join(projectRoot, file);
+            if (fs.existsSync(configPath)) {
+                return configPath;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Reads the `kit` options from svelte.config without executing it.
+     * Only literal values are returned, anything else is left undefined.
+     */
+    static readKitOptions(projectRoot: string): StaticObject {
+        return this.readOptions(this.findConfigFile(projectRoot), 'kit');
+    }
+
+    /**
+     * Reads the `server` options from vite.config, the same way as the `kit` options
+     */
+    static readViteServerOptions(projectRoot: string): StaticObject {
+        return this.readOptions(this.findConfigFile(projectRoot, VITE_CONFIG_FILES), 'server');
+    }
+
+    /**
+     * Resolves the routes, params, lib, assets and hooks locations of a project,
+     * falling back to SvelteKit's defaults for anything not set statically
+     */
+    static resolveKitFiles(projectRoot: string): SvelteKitFiles {
+        const kit = this.readKitOptions(projectRoot);
+        const files = this.isObject(kit.files) ? kit.files : {};
+
+        const resolve = (value: StaticValue, fallback: string) =>
+            path.resolve(projectRoot, typeof value === 'string' && value ? value : fallback);
+
+        // `files.hooks` was a single path before SvelteKit 1.0, now it's split per environment
+        const hooks = this.isObject(files.hooks) ? files.hooks : {};
+        const legacyHooks = typeof files.hooks === 'string' ? files.hooks : null;
+
+        return {
+            routes: resolve(files.routes, 'src/routes'),
+            params: resolve(files.params, 'src/params'),
+            lib: resolve(files.lib, 'src/lib'),
+            assets: resolve(files.assets, 'static'),
+            hooks: {
+                server: resolve(hooks.server, legacyHooks ?? 'src/hooks.server'),
+                client: resolve(hooks.client, legacyHooks ?? 'src/hooks.client'),
+                universal: resolve(hooks.universal, 'src/hooks')
+            }
+        };
+    }
+
+    /**
+     * Resolves `kit.paths.base`, the path the app is served from, e.g. `/docs`.
+     * Returns an empty string when the app is served from the root.
+     */
+    static resolveBasePath(projectRoot: string): string {
+        const kit = this.readKitOptions(projectRoot);
+        const paths = this.isObject(kit.paths) ? kit.paths : {};
+        return typeof paths.base === 'string' ? paths.base.replace(/\/+$/, '') : '';
+    }
+
+    static isObject(value: StaticValue): value is StaticObject {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Reads the literal starting at `pos`, e.g. an array of objects
+     */
+    static readLiteral(source: string, pos: number): StaticValue {
+        return this.parseValue(source, pos)[0];
+    }
+
+    /**
+     * Reads the object literal of a top-level option of a config file
+     */
+    private static readOptions(configPath: string | null, key: string): StaticObject {
+        if (!configPath) {
+            return {};
+        }
+
+        try {
+            const source = this.stripComments(fs.readFileSync(configPath, 'utf8'));
+
+            // `key: { ... }` inside the config object, or `const key = { ... }` used as shorthand
+            const match = new RegExp(`\\b${key}\\s*:\\s*\\{`).exec(source)
+                ?? new RegExp(`\\b(?:const|let|var)\\s+${key}\\s*=\\s*\\{`).exec(source);
+            if (!match) {
+                return {};
+            }
+
+            const [value] = this.parseValue(source, match.index + match[0].length - 1);
+            return this.isObject(value) ? value : {};
+        } catch (error) {
+            console.error(`Error reading ${path.basename(configPath)}:`, error);
+            return {};
+        }
+    }
+
+    /**
+     * Removes comments while leaving string contents untouched
+     */
+    static stripComments(source: string): string {
+        let result = '';
+        let i = 0;
+
+        while (i < source.length) {
+            const char = source[i];
+
+            if (char === '"' || char === "'" || char === '`') {
+                const end = this.skipString(source, i);
+                result += source.slice(i, end);
+                i = end;
+            } else if (char === '/' && source[i + 1] === '/') {
+                while (i < source.length && source[i] !== '\n') {
+                    i++;
+                }
+            } else if (char === '/' && source[i + 1] === '*') {
+                const end = source.indexOf('*/', i + 2);
+                i = end === -1 ? source.length : end + 2;
+            } else {
+                result += char;
+                i++;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the index of the bracket closing the one at `open`, or the
+     * end of the source when it isn't closed
+     */
+    static findClosingBracket(source: string, open: number): number {
+        let depth = 0;
+        let pos = open;
+        while (pos < source.length) {
+            const char = source[pos];
+            if (char === '"' || char === "'" || char === '`') {
+                pos = this.skipString(source, pos);
+                continue;
+            }
+            if (char === '(' || char === '[' || char === '{') {
+                depth++;
+            } else if ((char === ')' || char === ']' || char === '}') && --depth === 0) {
+                return pos;
+            }
+            pos++;
+        }
+        return source.length;
+    }
+
+    /**
+     * Returns the index right after the string literal starting at `start`
+     */
+    private static skipString(source: string, start: number): number {
+        const quote = source[start];
+        let i = start + 1;
+        while (i < source.length && source[i] !== quote) {
+            i += source[i] === '\\' ? 2 : 1;
+        }
+        return i + 1;
+    }
+
+    private static skipWhitespace(source: string, pos: number): number {
+        while (pos < source.length && /\s/.test(source[pos])) {
+            pos++;
+        }
+        return pos;
+    }
+
+    /**
+     * Skips an expression we can't evaluate, stopping at the next
+     * separator or closing bracket at the same nesting level
+     */
+    private static skipExpression(source: string, pos: number): number {
+        let depth = 0;
+        while (pos < source.length) {
+            const char = source[pos];
+            if (char === '"' || char === "'" || char === '`') {
+                pos = this.skipString(source, pos);
+                continue;
+            }
+            if (char === '(' || char === '[' || char === '{') {
+                depth++;
+            } else if (char === ')' || char === ']' || char === '}') {
+                if (depth === 0) {
+                    return pos;
+                }
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                return pos;
+            }
+            pos++;
+        }
+        return pos;
+    }
+
+    private static parseValue(source: string, pos: number): [StaticValue, number] {
+        pos = this.skipWhitespace(source, pos);
+        const char = source[pos];
+
+        if (char === '{') {
+            return this.parseObject(source, pos);
+        }
+        if (char === '[') {
+            return this.parseArray(source, pos);
+        }
+        if (char === '"' || char === "'" || char === '`') {
+            const end = this.skipString(source, pos);
+            const raw = source.slice(pos + 1, end - 1);
+            const next = this.skipWhitespace(source, end);
+            // Interpolated templates and concatenations can't be known statically
+            if ((char === '`' && raw.includes('${')) || !/^[,}\]]/.test(source[next] ?? '')) {
+                return [undefined, this.skipExpression(source, pos)];
+            }
+            return [raw.replace(/\\(.)/g, '$1'), end];
+        }
+
+        const end = this.skipExpression(source, pos);
+        const raw = source.slice(pos, end).trim();
+        if (raw === 'true' || raw === 'false') {
+            return [raw === 'true', end];
+        }
+        if (raw === 'null') {
+            return [null, end];
+        }
+        if (/^-?\d+(\.\d+)?$/.test(raw)) {
+            return [Number(raw), end];
+        }
+        return [undefined, end];
+    }
+
+    private static parseObject(source: string, pos: number): [StaticObject, number] {
+        const result: StaticObject = {};
+        pos++; // skip `{`
+
+        while (pos < source.length) {
+            pos = this.skipWhitespace(source, pos);
+            if (source[pos] === '}') {
+                return [result, pos + 1];
+            }
+            if (source[pos] === ',') {
+                pos++;
+                continue;
+            }
+
+            // Spreads and computed keys can't be resolved
+            if (source.startsWith('...', pos) || source[pos] === '[') {
+                pos = this.skipExpression(source, pos);
+                continue;
+            }
+
+            let key: string;
+            if (source[pos] === '"' || source[pos] === "'") {
+                const end = this.skipString(source, pos);
+                key = source.slice(pos + 1, end - 1);
+                pos = end;
+            } else {
+                const match = /^[\w$]+/.exec(source.slice(pos));
+                if (!match) {
+                    pos = Math.max(this.skipExpression(source, pos), pos + 1);
+                    continue;
+                }
+                key = match[0];
+                pos += key.length;
+            }
+
+            pos = this.skipWhitespace(source, pos);
+            if (source[pos] === ':') {
+                const [value, end] = this.parseValue(source, pos + 1);
+                result[key] = value;
+                pos = end;
+            } else {
+                // Shorthand properties and methods
+                result[key] = undefined;
+                pos = this.skipExpression(source, pos);
+            }
+        }
+
+        return [result, pos];
+    }
+
+    private static parseArray(source: string, pos: number): [StaticValue[], number] {
+        const result: StaticValue[] = [];
+        pos++; // skip `[`
+
+        while (pos < source.length) {
+            pos = this.skipWhitespace(source, pos);
+            if (source[pos] === ']') {
+                return [result, pos + 1];
+            }
+            if (source[pos] === ',') {
+                pos++;
+                continue;
+            }
+            const [value, end] = this.parseValue(source, pos);
+            result.push(value);
+            pos = Math.max(end, pos + 1);
+        }
+
+        return [result, pos];
+    }
+}